@@ -0,0 +1,20 @@
+-- Migration: Add user accounts and job ownership
+-- Run this migration on your jobs database after 001_create_query_jobs_table.sql
+
+-- Create users table
+CREATE TABLE IF NOT EXISTS users (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    username TEXT NOT NULL UNIQUE,
+    password_hash TEXT NOT NULL,
+
+    -- Timestamps
+    created_at TIMESTAMP DEFAULT NOW() NOT NULL,
+    last_login_at TIMESTAMP
+);
+
+-- Record the owner of each query job
+-- Existing jobs have no owner and are no longer readable through query-status
+ALTER TABLE query_jobs
+    ADD COLUMN IF NOT EXISTS user_id UUID REFERENCES users(id) ON DELETE CASCADE;
+
+CREATE INDEX IF NOT EXISTS idx_query_jobs_user_id ON query_jobs(user_id);
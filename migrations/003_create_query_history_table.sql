@@ -0,0 +1,29 @@
+-- Migration: Create query_history table for durable, searchable per-user history
+-- Run this migration on your jobs database after 002_create_users_and_job_ownership.sql
+
+CREATE TABLE IF NOT EXISTS query_history (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+    job_id UUID,
+
+    -- Question and request parameters
+    rag_id TEXT NOT NULL,
+    query TEXT NOT NULL,
+    params JSONB NOT NULL,
+
+    -- Answer data
+    response TEXT NOT NULL,
+    sources JSONB,
+    all_matching_chunks JSONB,
+    confidence TEXT,
+    verified BOOLEAN NOT NULL DEFAULT FALSE,
+
+    created_at TIMESTAMP DEFAULT NOW() NOT NULL
+);
+
+-- Listing a user's history newest first
+CREATE INDEX IF NOT EXISTS idx_query_history_user_created ON query_history(user_id, created_at DESC);
+
+-- Full-text search over question and answer
+CREATE INDEX IF NOT EXISTS idx_query_history_search ON query_history
+    USING gin (to_tsvector('english', query || ' ' || response));
@@ -0,0 +1,25 @@
+-- Migration: Add conversations for multi-turn questions
+-- Run this migration on your jobs database after 003_create_query_history_table.sql
+
+CREATE TABLE IF NOT EXISTS conversations (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+    title TEXT NOT NULL,
+
+    created_at TIMESTAMP DEFAULT NOW() NOT NULL,
+    updated_at TIMESTAMP DEFAULT NOW() NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS idx_conversations_user_updated ON conversations(user_id, updated_at DESC);
+
+-- Link jobs to their conversation and record the standalone retrieval query
+ALTER TABLE query_jobs
+    ADD COLUMN IF NOT EXISTS conversation_id UUID REFERENCES conversations(id) ON DELETE SET NULL,
+    ADD COLUMN IF NOT EXISTS retrieval_query TEXT;
+
+-- Link history entries to their conversation
+ALTER TABLE query_history
+    ADD COLUMN IF NOT EXISTS conversation_id UUID REFERENCES conversations(id) ON DELETE CASCADE,
+    ADD COLUMN IF NOT EXISTS retrieval_query TEXT;
+
+CREATE INDEX IF NOT EXISTS idx_query_history_conversation ON query_history(conversation_id, created_at);
@@ -0,0 +1,6 @@
+-- Migration: Store the answer on the job as it is generated
+-- Run this migration on your jobs database after 004_create_conversations.sql
+
+ALTER TABLE query_jobs
+    ADD COLUMN IF NOT EXISTS partial_response TEXT,
+    ADD COLUMN IF NOT EXISTS partial_sequence INTEGER NOT NULL DEFAULT 0;
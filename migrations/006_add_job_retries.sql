@@ -0,0 +1,12 @@
+-- Migration: Retry, heartbeat and dead-letter tracking for query jobs
+-- Run this migration on your jobs database after 005_add_partial_response.sql
+
+ALTER TABLE query_jobs
+    ADD COLUMN IF NOT EXISTS attempts INTEGER NOT NULL DEFAULT 0,
+    ADD COLUMN IF NOT EXISTS last_heartbeat_at TIMESTAMP,
+    ADD COLUMN IF NOT EXISTS next_attempt_at TIMESTAMP,
+    ADD COLUMN IF NOT EXISTS error_details JSONB;
+
+-- The sweeper looks for running jobs with a stale heartbeat and pending jobs that are due
+CREATE INDEX IF NOT EXISTS idx_query_jobs_status_heartbeat ON query_jobs(status, last_heartbeat_at);
+CREATE INDEX IF NOT EXISTS idx_query_jobs_status_next_attempt ON query_jobs(status, next_attempt_at);
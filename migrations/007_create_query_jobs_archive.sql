@@ -0,0 +1,23 @@
+-- Migration: Archive table for expired query jobs
+-- Run this migration on your jobs database after 006_add_job_retries.sql
+
+-- Expired jobs are moved here when JOB_CLEANUP_MODE=archive. The large JSONB columns
+-- (sources, all_matching_chunks) and partial responses are not archived.
+CREATE TABLE IF NOT EXISTS query_jobs_archive (
+    id UUID PRIMARY KEY,
+    user_id UUID,
+    conversation_id UUID,
+    status job_status NOT NULL,
+    params JSONB NOT NULL,
+    response TEXT,
+    confidence TEXT,
+    error TEXT,
+    error_details JSONB,
+    attempts INTEGER NOT NULL DEFAULT 0,
+
+    created_at TIMESTAMP NOT NULL,
+    completed_at TIMESTAMP,
+    archived_at TIMESTAMP DEFAULT NOW() NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS idx_query_jobs_archive_user ON query_jobs_archive(user_id, created_at DESC);
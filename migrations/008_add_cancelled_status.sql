@@ -0,0 +1,5 @@
+-- Migration: Allow query jobs to be cancelled by their owner
+-- Run this migration on your jobs database after 007_create_query_jobs_archive.sql
+-- (ALTER TYPE ... ADD VALUE cannot run inside a transaction block on older Postgres versions)
+
+ALTER TYPE job_status ADD VALUE IF NOT EXISTS 'cancelled';
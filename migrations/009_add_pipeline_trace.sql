@@ -0,0 +1,5 @@
+-- Migration: Store the timing and intermediate output of each pipeline stage on the job
+-- Run this migration on your jobs database after 008_add_cancelled_status.sql
+
+ALTER TABLE query_jobs
+    ADD COLUMN IF NOT EXISTS pipeline_trace JSONB;
@@ -0,0 +1,5 @@
+-- Migration: Store the prompt and completion token counts the LLM calls report on the job
+-- Run this migration on your jobs database after 009_add_pipeline_trace.sql
+
+ALTER TABLE query_jobs
+    ADD COLUMN IF NOT EXISTS token_usage JSONB;
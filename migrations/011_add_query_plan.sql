@@ -0,0 +1,5 @@
+-- Migration: Store the sub-questions (and drafted answers) of a decomposed question on the job
+-- Run this migration on your jobs database after 010_add_token_usage.sql
+
+ALTER TABLE query_jobs
+    ADD COLUMN IF NOT EXISTS plan JSONB;
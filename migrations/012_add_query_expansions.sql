@@ -0,0 +1,8 @@
+-- Migration: Store the synonym expansions applied to the BM25 query on the job and in history
+-- Run this migration on your jobs database after 011_add_query_plan.sql
+
+ALTER TABLE query_jobs
+    ADD COLUMN IF NOT EXISTS query_expansions JSONB;
+
+ALTER TABLE query_history
+    ADD COLUMN IF NOT EXISTS query_expansions JSONB;
@@ -0,0 +1,13 @@
+-- Migration: Store the retrieval strategy and the queries it generated (LLM paraphrases or the HyDE
+-- passage) on the job and in history
+-- Run this migration on your jobs database after 012_add_query_expansions.sql
+
+ALTER TABLE query_jobs
+    ADD COLUMN IF NOT EXISTS retrieval_strategy TEXT,
+    ADD COLUMN IF NOT EXISTS query_variants JSONB,
+    ADD COLUMN IF NOT EXISTS hypothetical_passage TEXT;
+
+ALTER TABLE query_history
+    ADD COLUMN IF NOT EXISTS retrieval_strategy TEXT,
+    ADD COLUMN IF NOT EXISTS query_variants JSONB,
+    ADD COLUMN IF NOT EXISTS hypothetical_passage TEXT;
@@ -0,0 +1,118 @@
+import type { Handler } from "@netlify/functions";
+import { issueToken } from "../../src/lib/auth";
+import { verifyPassword } from "../../src/lib/passwords";
+import { getUserByUsername, recordLogin } from "../../src/lib/db/users";
+
+// Hash of a random password, checked for unknown users so they take as long as wrong passwords
+const DUMMY_PASSWORD_HASH = "scrypt$1aZV_8CaDUsZ7ATJwwAaSA$5dvQUWgZWnP10BVVcZbh4Sj4OFsDfBaDQH43PdTZlA5OHHX9OHZPxC1RfJL24vOwUGi_Yyu-3fMSp9slgZxRDw";
+
+// Brute-force protection for login attempts
+const LOGIN_LIMITS = {
+  MAX_FAILED_ATTEMPTS: 5,
+  LOCKOUT_WINDOW_MS: 15 * 60 * 1000, // 15 minutes
+};
+
+// Simple in-memory failed attempt tracking (per function instance)
+const failedAttempts = new Map<string, { count: number; resetTime: number }>();
+
+function isLockedOut(clientIP: string): boolean {
+  const entry = failedAttempts.get(clientIP);
+  if (!entry) return false;
+  if (Date.now() > entry.resetTime) {
+    failedAttempts.delete(clientIP);
+    return false;
+  }
+  return entry.count >= LOGIN_LIMITS.MAX_FAILED_ATTEMPTS;
+}
+
+function recordFailedAttempt(clientIP: string) {
+  const entry = failedAttempts.get(clientIP);
+  if (!entry || Date.now() > entry.resetTime) {
+    failedAttempts.set(clientIP, { count: 1, resetTime: Date.now() + LOGIN_LIMITS.LOCKOUT_WINDOW_MS });
+  } else {
+    entry.count++;
+  }
+}
+
+export const handler: Handler = async (event) => {
+  const headers = {
+    "Access-Control-Allow-Origin": "*",
+    "Access-Control-Allow-Headers": "Content-Type, Authorization",
+    "Access-Control-Allow-Methods": "POST, OPTIONS",
+  };
+
+  if (event.httpMethod === "OPTIONS") {
+    return { statusCode: 200, headers, body: "" };
+  }
+
+  if (event.httpMethod !== "POST") {
+    return {
+      statusCode: 405,
+      headers,
+      body: JSON.stringify({ error: "Method not allowed" }),
+    };
+  }
+
+  const clientIP = event.headers['x-forwarded-for']?.split(',')[0] ||
+                   event.headers['x-real-ip'] ||
+                   'unknown';
+
+  try {
+    if (isLockedOut(clientIP)) {
+      console.log(`[${new Date().toISOString()}] Login locked out for IP: ${clientIP}`);
+      return {
+        statusCode: 429,
+        headers: { ...headers, "Retry-After": "900" },
+        body: JSON.stringify({
+          error: "Too many failed login attempts",
+          message: "Please wait 15 minutes before trying again"
+        }),
+      };
+    }
+
+    const { username, password } = JSON.parse(event.body || "{}");
+
+    if (typeof username !== "string" || typeof password !== "string" || !username.trim() || !password) {
+      return {
+        statusCode: 400,
+        headers,
+        body: JSON.stringify({ error: "Username and password are required" }),
+      };
+    }
+
+    const user = await getUserByUsername(username.trim());
+    const passwordValid = verifyPassword(password, user?.passwordHash || DUMMY_PASSWORD_HASH);
+
+    if (!user || !passwordValid) {
+      recordFailedAttempt(clientIP);
+      console.log(`[${new Date().toISOString()}] Failed login for user: ${username.trim()}`);
+      return {
+        statusCode: 401,
+        headers,
+        body: JSON.stringify({ error: "Invalid username or password" }),
+      };
+    }
+
+    failedAttempts.delete(clientIP);
+    await recordLogin(user.id);
+    const { token, expiresAt } = issueToken(user.id, user.username);
+    console.log(`[${new Date().toISOString()}] Issued session token for user: ${user.username}`);
+
+    return {
+      statusCode: 200,
+      headers,
+      body: JSON.stringify({
+        token,
+        username: user.username,
+        expiresAt: expiresAt.toISOString(),
+      }),
+    };
+  } catch (error) {
+    console.error("Error during login:", error);
+    return {
+      statusCode: 500,
+      headers,
+      body: JSON.stringify({ error: "Failed to log in" }),
+    };
+  }
+};
@@ -0,0 +1,157 @@
+import type { Handler } from "@netlify/functions";
+import {
+  listHistory,
+  getHistoryEntry,
+  deleteHistoryEntry,
+  getConversation,
+  getConversationTurns
+} from "../../src/lib/db/history";
+import { authenticateRequest, unauthorizedResponse } from "../../src/lib/auth";
+
+const HISTORY_LIMITS = {
+  DEFAULT_PAGE_SIZE: 20,
+  MAX_PAGE_SIZE: 100,
+  MAX_SEARCH_LENGTH: 200,
+};
+
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+export const handler: Handler = async (event) => {
+  const headers = {
+    "Access-Control-Allow-Origin": "*",
+    "Access-Control-Allow-Headers": "Content-Type, Authorization",
+    "Access-Control-Allow-Methods": "GET, DELETE, OPTIONS",
+  };
+
+  if (event.httpMethod === "OPTIONS") {
+    return { statusCode: 200, headers, body: "" };
+  }
+
+  if (event.httpMethod !== "GET" && event.httpMethod !== "DELETE") {
+    return {
+      statusCode: 405,
+      headers,
+      body: JSON.stringify({ error: "Method not allowed" }),
+    };
+  }
+
+  const session = authenticateRequest(event);
+  if (!session) {
+    return unauthorizedResponse(headers);
+  }
+
+  try {
+    const { id, conversationId, q, limit, offset } = event.queryStringParameters || {};
+
+    // IDs are UUIDs; anything else would fail the database's uuid cast
+    if (id && !UUID_PATTERN.test(id)) {
+      return {
+        statusCode: 400,
+        headers,
+        body: JSON.stringify({ error: "Invalid history entry ID" }),
+      };
+    }
+
+    if (conversationId && !UUID_PATTERN.test(conversationId)) {
+      return {
+        statusCode: 400,
+        headers,
+        body: JSON.stringify({ error: "Invalid conversation ID" }),
+      };
+    }
+
+    // DELETE ?id=... removes a single entry
+    if (event.httpMethod === "DELETE") {
+      if (!id) {
+        return {
+          statusCode: 400,
+          headers,
+          body: JSON.stringify({ error: "History entry ID is required" }),
+        };
+      }
+
+      const deleted = await deleteHistoryEntry(session.sub, id);
+      console.log(`[${new Date().toISOString()}] Delete history entry ${id} for user ${session.username}: ${deleted}`);
+
+      return {
+        statusCode: deleted ? 200 : 404,
+        headers,
+        body: JSON.stringify(deleted ? { id, deleted: true } : { error: "History entry not found" }),
+      };
+    }
+
+    // GET ?id=... reopens a single entry with its sources and parameters
+    if (id) {
+      const entry = await getHistoryEntry(session.sub, id);
+
+      if (!entry) {
+        return {
+          statusCode: 404,
+          headers,
+          body: JSON.stringify({ error: "History entry not found" }),
+        };
+      }
+
+      return {
+        statusCode: 200,
+        headers,
+        body: JSON.stringify({
+          ...entry,
+          confidence: entry.confidence ? parseFloat(entry.confidence) : undefined,
+        }),
+      };
+    }
+
+    // GET ?conversationId=... returns every turn of a conversation in order
+    if (conversationId) {
+      const conversation = await getConversation(session.sub, conversationId);
+
+      if (!conversation) {
+        return {
+          statusCode: 404,
+          headers,
+          body: JSON.stringify({ error: "Conversation not found" }),
+        };
+      }
+
+      const turns = await getConversationTurns(session.sub, conversationId);
+
+      return {
+        statusCode: 200,
+        headers,
+        body: JSON.stringify({
+          conversation,
+          turns: turns.map(turn => ({
+            ...turn,
+            confidence: turn.confidence ? parseFloat(turn.confidence) : undefined,
+          })),
+        }),
+      };
+    }
+
+    // GET lists entries, optionally searched with ?q=
+    const search = q?.trim().substring(0, HISTORY_LIMITS.MAX_SEARCH_LENGTH) || undefined;
+    const pageSize = Math.min(Math.max(parseInt(limit || "") || HISTORY_LIMITS.DEFAULT_PAGE_SIZE, 1), HISTORY_LIMITS.MAX_PAGE_SIZE);
+    const pageOffset = Math.max(parseInt(offset || "") || 0, 0);
+
+    const entries = await listHistory(session.sub, { search, limit: pageSize, offset: pageOffset });
+
+    return {
+      statusCode: 200,
+      headers,
+      body: JSON.stringify({
+        entries,
+        limit: pageSize,
+        offset: pageOffset,
+        search: search || null,
+      }),
+    };
+  } catch (error) {
+    console.error("Error handling history request:", error);
+    return {
+      statusCode: 500,
+      headers,
+      body: JSON.stringify({ error: "Failed to process history request" }),
+    };
+  }
+};
@@ -0,0 +1,91 @@
+import type { Handler } from "@netlify/functions";
+import { cancelQueryJob, getQueryJob } from "../../src/lib/db/jobs";
+import { authenticateRequest, unauthorizedResponse } from "../../src/lib/auth";
+
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+// Cancel a pending or running job. A running job notices the cancellation within a few seconds,
+// aborts its in-flight requests and stops without storing results.
+export const handler: Handler = async (event) => {
+  const headers = {
+    "Access-Control-Allow-Origin": "*",
+    "Access-Control-Allow-Headers": "Content-Type, Authorization",
+    "Access-Control-Allow-Methods": "POST, OPTIONS",
+  };
+
+  if (event.httpMethod === "OPTIONS") {
+    return { statusCode: 200, headers, body: "" };
+  }
+
+  if (event.httpMethod !== "POST") {
+    return {
+      statusCode: 405,
+      headers,
+      body: JSON.stringify({ error: "Method not allowed" }),
+    };
+  }
+
+  const session = authenticateRequest(event);
+  if (!session) {
+    return unauthorizedResponse(headers);
+  }
+
+  try {
+    const { jobId } = JSON.parse(event.body || "{}");
+
+    if (typeof jobId !== "string" || !jobId) {
+      return {
+        statusCode: 400,
+        headers,
+        body: JSON.stringify({ error: "Job ID is required" }),
+      };
+    }
+
+    if (!UUID_PATTERN.test(jobId)) {
+      return {
+        statusCode: 400,
+        headers,
+        body: JSON.stringify({ error: "Invalid job ID" }),
+      };
+    }
+
+    const cancelled = await cancelQueryJob(jobId, session.sub);
+
+    if (cancelled) {
+      console.log(`[${new Date().toISOString()}] Cancelled job ${jobId} for user ${session.username}`);
+      return {
+        statusCode: 200,
+        headers,
+        body: JSON.stringify({
+          jobId: cancelled.id,
+          status: cancelled.status,
+          completedAt: cancelled.completedAt,
+        }),
+      };
+    }
+
+    // Nothing was cancelled - tell apart a missing job from one that has already finished
+    const job = await getQueryJob(jobId, session.sub);
+
+    if (!job) {
+      return {
+        statusCode: 404,
+        headers,
+        body: JSON.stringify({ error: "Job not found" }),
+      };
+    }
+
+    return {
+      statusCode: 409,
+      headers,
+      body: JSON.stringify({ error: "Job has already finished", status: job.status }),
+    };
+  } catch (error) {
+    console.error("Error cancelling job:", error);
+    return {
+      statusCode: 500,
+      headers,
+      body: JSON.stringify({ error: "Failed to cancel job" }),
+    };
+  }
+};
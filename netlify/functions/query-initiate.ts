@@ -1,6 +1,12 @@
 import type { Handler } from "@netlify/functions";
-import { createQueryJob, markJobFailed } from "../../src/lib/db/jobs";
+import { createQueryJob } from "../../src/lib/db/jobs";
+import { createConversation, getConversation } from "../../src/lib/db/history";
 import { RAG_METADATA, type RagId } from "../../src/lib/db/separate-db";
+import { authenticateRequest, unauthorizedResponse } from "../../src/lib/auth";
+import { dispatchQueryJob } from "../../src/lib/job-dispatch";
+import { selectRetrievalStrategy, selectRrfSettings, selectMmrLambda, selectScoring, selectContextExpansion, selectNeighborWindow, selectDecomposition, selectRagIds, FEDERATION_SETTINGS } from "../../src/lib/rag/config";
+import { validatePipelineDefinition } from "../../src/lib/rag/stages";
+import { parseRetrievalFilters } from "../../src/lib/rag/filters";
 
 // Token limits and validation (shared with query.ts)
 const TOKEN_LIMITS = {
@@ -26,6 +32,8 @@ const ABUSE_PREVENTION = {
   ]
 };
 
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
 // Simple in-memory rate limiting (shared with query.ts)
 const rateLimitStore = new Map<string, { count: number; resetTime: number }>();
 
@@ -97,9 +105,14 @@ function validateAndSanitizeInput(input: any): {
     errors.push(...suspiciousIssues);
   }
 
-  // RAG ID validation
-  if (!input.ragId || typeof input.ragId !== 'string') {
+  // RAG ID validation: ragId, ragIds (several RAGs searched together) or both
+  const ragIds = selectRagIds(input.ragId, input.ragIds);
+  if (input.ragIds !== undefined && !Array.isArray(input.ragIds)) {
+    errors.push('RAG IDs must be a list of RAG IDs');
+  } else if (ragIds.length === 0) {
     errors.push('RAG ID is required');
+  } else if (ragIds.length > FEDERATION_SETTINGS.MAX_RAGS) {
+    errors.push(`At most ${FEDERATION_SETTINGS.MAX_RAGS} RAGs can be searched at once`);
   }
 
   // Target tokens validation
@@ -110,20 +123,45 @@ function validateAndSanitizeInput(input: any): {
     }
   }
 
+  // Pipeline definition validation
+  if (input.pipeline !== undefined) {
+    if (!Array.isArray(input.pipeline) || !input.pipeline.every((name: unknown) => typeof name === 'string')) {
+      errors.push('Pipeline must be a list of stage names');
+    } else {
+      errors.push(...validatePipelineDefinition(input.pipeline));
+    }
+  }
+
+  // Metadata filters validation
+  const { filters, errors: filterErrors } = parseRetrievalFilters(input.filters);
+  errors.push(...filterErrors);
+
   // Sanitize input
+  const rrf = selectRrfSettings(input.rrfK, input.rrfDepth);
   const sanitized = {
-    ragId: input.ragId?.trim(),
+    ragId: ragIds[0],
+    ragIds,
     query: input.query?.trim().substring(0, TOKEN_LIMITS.MAX_QUERY_LENGTH),
     model: input.model?.trim(),
     complexity: input.complexity?.trim(),
-    retrievalStrategy: input.retrievalStrategy?.trim(),
+    retrievalStrategy: selectRetrievalStrategy(input.retrievalStrategy?.trim()),
+    rrfK: rrf.k,
+    rrfDepth: rrf.depth,
+    rerank: Boolean(input.rerank),
+    mmrLambda: selectMmrLambda(input.mmrLambda),
+    filters,
+    scoring: selectScoring(input.scoring),
+    contextExpansion: selectContextExpansion(input.contextExpansion),
+    neighborWindow: selectNeighborWindow(input.neighborWindow),
+    decomposition: selectDecomposition(input.decomposition),
     enableVerification: Boolean(input.enableVerification),
     maxChunksPerPaper: Math.min(Math.max(parseInt(input.maxChunksPerPaper) || 3, 1), 10),
     targetTokens: Math.min(Math.max(parseInt(input.targetTokens) || TOKEN_LIMITS.DEFAULT_TARGET_TOKENS, TOKEN_LIMITS.MIN_TARGET_TOKENS), TOKEN_LIMITS.MAX_TARGET_TOKENS),
     similarityThreshold: Math.min(Math.max(parseFloat(input.similarityThreshold) || 0.3, 0.1), 1.0),
     vectorWeight: Math.min(Math.max(parseFloat(input.vectorWeight) || 0.7, 0.0), 1.0),
     textWeight: Math.min(Math.max(parseFloat(input.textWeight) || 0.3, 0.0), 1.0),
-    outputStyle: input.outputStyle?.trim()
+    outputStyle: input.outputStyle?.trim(),
+    pipeline: Array.isArray(input.pipeline) && input.pipeline.length > 0 ? input.pipeline : undefined
   };
 
   return { isValid: errors.length === 0, errors, sanitized };
@@ -132,7 +170,7 @@ function validateAndSanitizeInput(input: any): {
 export const handler: Handler = async (event, context) => {
   const headers = {
     "Access-Control-Allow-Origin": "*",
-    "Access-Control-Allow-Headers": "Content-Type",
+    "Access-Control-Allow-Headers": "Content-Type, Authorization",
     "Access-Control-Allow-Methods": "POST, OPTIONS",
   };
 
@@ -148,6 +186,11 @@ export const handler: Handler = async (event, context) => {
     };
   }
 
+  const session = authenticateRequest(event);
+  if (!session) {
+    return unauthorizedResponse(headers);
+  }
+
   // Get client IP for rate limiting
   const clientIP = event.headers['x-forwarded-for']?.split(',')[0] ||
                    event.headers['x-real-ip'] ||
@@ -188,23 +231,48 @@ export const handler: Handler = async (event, context) => {
 
     const params = validation.sanitized!;
 
-    // Validate RAG exists
-    if (!RAG_METADATA[params.ragId as RagId]) {
+    // Validate every RAG exists
+    const unknownRagIds = params.ragIds.filter((ragId: string) => !RAG_METADATA[ragId as RagId]);
+    if (unknownRagIds.length > 0) {
       return {
         statusCode: 404,
         headers,
-        body: JSON.stringify({ error: "RAG not found" }),
+        body: JSON.stringify({ error: "RAG not found", details: unknownRagIds }),
       };
     }
 
+    // Continue the given conversation, or start a new one with this question
+    let conversationId: string;
+    if (rawInput.conversationId) {
+      const conversation = typeof rawInput.conversationId === 'string' && UUID_PATTERN.test(rawInput.conversationId)
+        ? await getConversation(session.sub, rawInput.conversationId)
+        : null;
+
+      if (!conversation) {
+        return {
+          statusCode: 404,
+          headers,
+          body: JSON.stringify({ error: "Conversation not found" }),
+        };
+      }
+      conversationId = conversation.id;
+    } else {
+      conversationId = (await createConversation(session.sub, params.query)).id;
+    }
+
     // Create job in database
-    console.log(`[${new Date().toISOString()}] Creating job for query: "${params.query}"`);
-    const job = await createQueryJob(params);
+    console.log(`[${new Date().toISOString()}] Creating job for user ${session.username}, query: "${params.query}"`);
+    const job = await createQueryJob(session.sub, params, conversationId);
     console.log(`[${new Date().toISOString()}] Created job with ID: ${job.id}`);
 
-    // Job created successfully - frontend will trigger background processing
-    console.log(`[${new Date().toISOString()}] Job created, returning to frontend for background triggering`);
-    console.log(`[${new Date().toISOString()}] Environment: ${process.env.CONTEXT || 'production'}`);
+    // Process the job in the background function; clients follow it through query-status or query-stream.
+    // A failed dispatch leaves the job pending for the job sweeper.
+    try {
+      await dispatchQueryJob(job.id, { id: session.sub, username: session.username });
+      console.log(`[${new Date().toISOString()}] Dispatched job ${job.id} to background processing`);
+    } catch (dispatchError) {
+      console.error(`[${new Date().toISOString()}] Failed to dispatch job ${job.id}, leaving it for the sweeper:`, dispatchError);
+    }
 
     // Return immediately with job ID
     return {
@@ -212,8 +280,10 @@ export const handler: Handler = async (event, context) => {
       headers,
       body: JSON.stringify({
         jobId: job.id,
+        conversationId,
         message: "Query processing started",
         checkStatusUrl: `/.netlify/functions/query-status?jobId=${job.id}`,
+        streamUrl: `/.netlify/functions/query-stream?jobId=${job.id}`,
         estimatedTime: "15-60 seconds"
       })
     };
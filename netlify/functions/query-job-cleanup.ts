@@ -0,0 +1,19 @@
+import type { Handler } from "@netlify/functions";
+import { cleanupExpiredJobs, JOB_RETENTION_MS } from "../../src/lib/db/jobs";
+
+// Scheduled function (see netlify.toml): purges or archives jobs past their retention period
+export const handler: Handler = async () => {
+  const archive = process.env.JOB_CLEANUP_MODE === "archive";
+
+  try {
+    console.log(`[${new Date().toISOString()}] Cleaning up expired jobs (mode: ${archive ? "archive" : "delete"}, retention: completed ${JOB_RETENTION_MS.completed / 86400000}d, failed ${JOB_RETENTION_MS.failed / 86400000}d)`);
+
+    const report = await cleanupExpiredJobs({ archive });
+
+    console.log(`[${new Date().toISOString()}] Job cleanup removed ${report.rows} rows (~${(report.bytes / 1024 / 1024).toFixed(2)} MB):`, report.byStatus);
+    return { statusCode: 200, body: JSON.stringify(report) };
+  } catch (error) {
+    console.error("Error cleaning up expired jobs:", error);
+    return { statusCode: 500, body: JSON.stringify({ error: "Failed to clean up expired jobs" }) };
+  }
+};
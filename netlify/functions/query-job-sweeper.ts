@@ -0,0 +1,59 @@
+import type { Handler } from "@netlify/functions";
+import { findJobsToRecover, requeueQueryJob, markJobFailed } from "../../src/lib/db/jobs";
+import { dispatchQueryJob } from "../../src/lib/job-dispatch";
+import { RETRY_SETTINGS } from "../../src/lib/rag/retry";
+
+// Scheduled function (see netlify.toml): recovers jobs whose processing died, and dispatches
+// re-queued or never-started jobs. Jobs that run out of attempts are marked failed.
+export const handler: Handler = async () => {
+  const now = new Date();
+  const staleBefore = new Date(now.getTime() - RETRY_SETTINGS.STALE_AFTER_MS);
+  const unstartedBefore = new Date(now.getTime() - RETRY_SETTINGS.DISPATCH_AFTER_MS);
+
+  const summary = { checked: 0, requeued: 0, failed: 0, dispatched: 0, errors: 0 };
+
+  try {
+    const jobs = await findJobsToRecover(staleBefore, unstartedBefore);
+    summary.checked = jobs.length;
+
+    for (const { job, username } of jobs) {
+      try {
+        // A running job without a recent heartbeat crashed or hit the function timeout
+        if (job.status === "processing") {
+          const exhausted = job.attempts >= RETRY_SETTINGS.MAX_JOB_ATTEMPTS;
+          const errorRecord = {
+            message: "Processing stopped unexpectedly (the function crashed or timed out)",
+            code: "STALE_HEARTBEAT",
+            step: job.progress || undefined,
+            transient: !exhausted,
+            attempt: job.attempts,
+            occurredAt: now.toISOString(),
+          };
+
+          if (exhausted) {
+            await markJobFailed(job.id, errorRecord);
+            summary.failed++;
+            console.log(`[${new Date().toISOString()}] Job ${job.id} failed after ${job.attempts} attempts`);
+            continue;
+          }
+
+          await requeueQueryJob(job.id, errorRecord, now);
+          summary.requeued++;
+          console.log(`[${new Date().toISOString()}] Re-queued stale job ${job.id} (attempt ${job.attempts})`);
+        }
+
+        await dispatchQueryJob(job.id, { id: job.userId!, username });
+        summary.dispatched++;
+      } catch (error) {
+        summary.errors++;
+        console.error(`[${new Date().toISOString()}] Failed to recover job ${job.id}:`, error);
+      }
+    }
+
+    console.log(`[${new Date().toISOString()}] Job sweep complete:`, summary);
+    return { statusCode: 200, body: JSON.stringify(summary) };
+  } catch (error) {
+    console.error("Error sweeping query jobs:", error);
+    return { statusCode: 500, body: JSON.stringify({ error: "Failed to sweep query jobs" }) };
+  }
+};
@@ -1,10 +1,13 @@
 import type { Handler } from "@netlify/functions";
-import { getQueryJob } from "../../src/lib/db/jobs";
+import { getQueryJob, completedJobResponse } from "../../src/lib/db/jobs";
+import { authenticateRequest, unauthorizedResponse } from "../../src/lib/auth";
+
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
 
 export const handler: Handler = async (event, context) => {
   const headers = {
     "Access-Control-Allow-Origin": "*",
-    "Access-Control-Allow-Headers": "Content-Type",
+    "Access-Control-Allow-Headers": "Content-Type, Authorization",
     "Access-Control-Allow-Methods": "GET, OPTIONS",
   };
 
@@ -20,8 +23,13 @@ export const handler: Handler = async (event, context) => {
     };
   }
 
+  const session = authenticateRequest(event);
+  if (!session) {
+    return unauthorizedResponse(headers);
+  }
+
   try {
-    const { jobId } = event.queryStringParameters || {};
+    const { jobId, cursor } = event.queryStringParameters || {};
 
     if (!jobId) {
       return {
@@ -31,10 +39,18 @@ export const handler: Handler = async (event, context) => {
       };
     }
 
+    if (!UUID_PATTERN.test(jobId)) {
+      return {
+        statusCode: 400,
+        headers,
+        body: JSON.stringify({ error: "Invalid job ID" }),
+      };
+    }
+
     console.log(`[${new Date().toISOString()}] Checking status for job: ${jobId}`);
 
-    // Get job from database
-    const job = await getQueryJob(jobId);
+    // Get job from database (jobs owned by other users are reported as not found)
+    const job = await getQueryJob(jobId, session.sub);
 
     if (!job) {
       console.log(`[${new Date().toISOString()}] Job not found: ${jobId}`);
@@ -59,7 +75,7 @@ export const handler: Handler = async (event, context) => {
         headers,
         body: JSON.stringify({
           error: "Job has expired",
-          message: "Results are only available for 1 hour after creation"
+          message: "This job is past its retention period; reopen the answer from your history instead"
         }),
       };
     }
@@ -71,14 +87,7 @@ export const handler: Handler = async (event, context) => {
         statusCode: 200,
         headers,
         body: JSON.stringify({
-          jobId: job.id,
-          status: job.status,
-          response: job.response,
-          sources: job.sources,
-          allMatchingChunks: job.allMatchingChunks,
-          confidence: job.confidence ? parseFloat(job.confidence) : undefined,
-          verified: job.params.enableVerification,
-          completedAt: job.completedAt,
+          ...completedJobResponse(job),
           elapsedTime,
         }),
       };
@@ -91,12 +100,29 @@ export const handler: Handler = async (event, context) => {
           jobId: job.id,
           status: job.status,
           error: job.error || "Query processing failed",
+          errorDetails: job.errorDetails || [],
+          attempts: job.attempts,
+          completedAt: job.completedAt,
+          elapsedTime,
+        }),
+      };
+    } else if (job.status === "cancelled") {
+      // Job was stopped by its owner; any partial answer is discarded
+      return {
+        statusCode: 200,
+        headers,
+        body: JSON.stringify({
+          jobId: job.id,
+          status: job.status,
           completedAt: job.completedAt,
           elapsedTime,
         }),
       };
     } else {
-      // Job is still pending or processing
+      // Job is still pending or processing - return only the answer text written since the client's cursor
+      const partialResponse = job.partialResponse || "";
+      const partialCursor = Math.min(Math.max(parseInt(cursor || "") || 0, 0), partialResponse.length);
+
       return {
         statusCode: 200,
         headers,
@@ -104,6 +130,11 @@ export const handler: Handler = async (event, context) => {
           jobId: job.id,
           status: job.status,
           progress: job.progress || "Processing query...",
+          attempt: job.attempts,
+          nextAttemptAt: job.status === "pending" ? job.nextAttemptAt : undefined,
+          partialResponse: partialResponse.substring(partialCursor),
+          cursor: partialResponse.length,
+          sequence: job.partialSequence,
           estimatedTime: job.status === "pending" ? "15-60 seconds" : `${60 - elapsedTime} seconds remaining`,
           elapsedTime,
         }),
@@ -0,0 +1,204 @@
+import { PassThrough } from "node:stream";
+import { stream } from "@netlify/functions";
+import { getQueryJob, completedJobResponse } from "../../src/lib/db/jobs";
+import { authenticateRequest, unauthorizedResponse } from "../../src/lib/auth";
+
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+// How the job is followed; a stream is closed with a reconnect event well before the function timeout
+const RELAY_SETTINGS = {
+  POLL_INTERVAL_MS: 1000, // Matches how often the background function writes answer text to the job
+  MAX_DURATION_MS: 20000
+};
+
+// Follow a job being processed by the background function and relay what it writes as Server-Sent
+// Events: progress, retrieval-done, sources, token, verification and restart, then done, error or
+// cancelled (or reconnect).
+// Processing never depends on the stream, so a dropped or timed-out stream only stops the relay.
+export const handler = stream(async (event) => {
+  const headers = {
+    "Access-Control-Allow-Origin": "*",
+    "Access-Control-Allow-Headers": "Content-Type, Authorization",
+    "Access-Control-Allow-Methods": "GET, OPTIONS",
+  };
+
+  if (event.httpMethod === "OPTIONS") {
+    return { statusCode: 200, headers, body: "" };
+  }
+
+  if (event.httpMethod !== "GET") {
+    return {
+      statusCode: 405,
+      headers,
+      body: JSON.stringify({ error: "Method not allowed" }),
+    };
+  }
+
+  const session = authenticateRequest(event);
+  if (!session) {
+    return unauthorizedResponse(headers);
+  }
+
+  const { jobId, cursor, attempt } = event.queryStringParameters || {};
+
+  if (!jobId) {
+    return {
+      statusCode: 400,
+      headers,
+      body: JSON.stringify({ error: "Job ID is required" }),
+    };
+  }
+
+  if (!UUID_PATTERN.test(jobId)) {
+    return {
+      statusCode: 400,
+      headers,
+      body: JSON.stringify({ error: "Invalid job ID" }),
+    };
+  }
+
+  let job;
+  try {
+    job = await getQueryJob(jobId, session.sub);
+  } catch (error) {
+    console.error("Error loading job for streaming:", error);
+    return {
+      statusCode: 500,
+      headers,
+      body: JSON.stringify({ error: "Failed to load job" }),
+    };
+  }
+
+  if (!job) {
+    return {
+      statusCode: 404,
+      headers,
+      body: JSON.stringify({ error: "Job not found" }),
+    };
+  }
+
+  console.log(`[${new Date().toISOString()}] Streaming job ${job.id} for user ${session.username}`);
+
+  const followedJob = job;
+  const userId = session.sub;
+  const body = new PassThrough();
+  let closed = false;
+  body.on("close", () => { closed = true; });
+
+  const send = (eventName: string, data: unknown) => {
+    body.write(`event: ${eventName}\ndata: ${JSON.stringify(data)}\n\n`);
+  };
+
+  // Resuming clients pass the cursor and attempt of the text they already have
+  let relayedCursor = Math.max(parseInt(cursor || "") || 0, 0);
+  let relayedAttempt = Math.max(parseInt(attempt || "") || 0, 0);
+  let relayedProgress: string | null = null;
+  let relayedRetrieval = false;
+  let relayedVerification = false;
+
+  // Relay what is written to the job after the response has started
+  (async () => {
+    const deadline = Date.now() + RELAY_SETTINGS.MAX_DURATION_MS;
+    let current = followedJob;
+
+    try {
+      while (!closed) {
+        if (new Date() > new Date(current.expiresAt)) {
+          send("error", { error: "Job has expired" });
+          return;
+        }
+
+        if (current.status === "completed") {
+          send("done", completedJobResponse(current));
+          return;
+        }
+
+        if (current.status === "failed") {
+          send("error", { error: current.error || "Query processing failed" });
+          return;
+        }
+
+        if (current.status === "cancelled") {
+          send("cancelled", { jobId: current.id });
+          return;
+        }
+
+        // A retried job writes its answer again from the start
+        if (relayedAttempt > 0 && current.attempts > relayedAttempt) {
+          send("restart", { attempt: current.attempts });
+          relayedCursor = 0;
+          relayedRetrieval = false;
+          relayedVerification = false;
+        }
+        relayedAttempt = current.attempts;
+
+        const progress = current.status === "pending"
+          ? current.nextAttemptAt ? "Temporary error, retrying shortly..." : "Waiting for processing to start..."
+          : current.progress || "Processing query...";
+        if (progress !== relayedProgress) {
+          send("progress", { message: progress, status: current.status });
+          relayedProgress = progress;
+        }
+
+        // Written by the job when retrieval finishes, before the answer is generated
+        if (!relayedRetrieval && current.status === "processing" && Array.isArray(current.sources)) {
+          const allMatchingChunks = (current.allMatchingChunks as any[]) || [];
+          send("retrieval-done", {
+            retrievalQuery: current.retrievalQuery,
+            contextChunks: current.sources.length,
+            matchingChunks: allMatchingChunks.length,
+          });
+          if (current.sources.length > 0) {
+            send("sources", { sources: current.sources, allMatchingChunks });
+          }
+          relayedRetrieval = true;
+        }
+
+        const partialResponse = current.partialResponse || "";
+        if (partialResponse.length > relayedCursor) {
+          send("token", { delta: partialResponse.substring(relayedCursor) });
+          relayedCursor = partialResponse.length;
+        }
+
+        // Written by the job when verification finishes; the answer text is complete by then
+        if (!relayedVerification && current.status === "processing" && current.response) {
+          send("verification", {
+            response: current.response,
+            confidence: current.confidence ? parseFloat(current.confidence) : undefined,
+          });
+          relayedVerification = true;
+        }
+
+        if (Date.now() >= deadline) {
+          send("reconnect", { cursor: relayedCursor, attempt: relayedAttempt });
+          return;
+        }
+
+        await new Promise(resolve => setTimeout(resolve, RELAY_SETTINGS.POLL_INTERVAL_MS));
+        const next = await getQueryJob(current.id, userId);
+        if (!next) {
+          send("error", { error: "Job not found" });
+          return;
+        }
+        current = next;
+      }
+    } catch (error) {
+      // Only the relay failed; the job keeps running and can be followed by polling
+      console.error(`[${new Date().toISOString()}] Error relaying job ${current.id}:`, error);
+      send("reconnect", { cursor: relayedCursor, attempt: relayedAttempt });
+    } finally {
+      body.end();
+    }
+  })();
+
+  return {
+    statusCode: 200,
+    headers: {
+      ...headers,
+      "Content-Type": "text/event-stream",
+      "Cache-Control": "no-cache",
+      "Connection": "keep-alive",
+    },
+    body,
+  };
+});
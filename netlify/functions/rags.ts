@@ -1,10 +1,11 @@
 import type { Handler } from "@netlify/functions";
 import { RAG_METADATA } from "../../src/lib/db/separate-db";
+import { authenticateRequest, unauthorizedResponse } from "../../src/lib/auth";
 
 export const handler: Handler = async (event, context) => {
   const headers = {
     "Access-Control-Allow-Origin": "*",
-    "Access-Control-Allow-Headers": "Content-Type",
+    "Access-Control-Allow-Headers": "Content-Type, Authorization",
     "Access-Control-Allow-Methods": "GET, OPTIONS",
   };
 
@@ -20,6 +21,10 @@ export const handler: Handler = async (event, context) => {
     };
   }
 
+  if (!authenticateRequest(event)) {
+    return unauthorizedResponse(headers);
+  }
+
   try {
     // Convert RAG_METADATA to array format with enhanced information
     const ragsList = Object.values(RAG_METADATA).map(rag => ({
@@ -0,0 +1,28 @@
+#!/usr/bin/env -S npx tsx
+import 'dotenv/config';
+import { hashPassword } from '../src/lib/passwords';
+import { upsertUser } from '../src/lib/db/users';
+
+async function main() {
+  const username = process.argv[2];
+  const password = process.argv[3];
+
+  if (!username || !password) {
+    console.log('Usage: npx tsx scripts/create-user.ts <username> <password>');
+    console.log('Creates the user, or resets the password if the user already exists.');
+    process.exit(1);
+  }
+
+  if (password.length < 8) {
+    console.error('❌ Password must be at least 8 characters');
+    process.exit(1);
+  }
+
+  const user = await upsertUser(username.trim(), hashPassword(password));
+  console.log(`✅ User "${user.username}" saved (id: ${user.id})`);
+}
+
+main().catch((error) => {
+  console.error('❌ Failed to create user:', error);
+  process.exit(1);
+});
@@ -34,6 +34,22 @@ async function insertBatch(sql: any, batch: EmbeddingRecord[]): Promise<number>
   }
 }
 
+// Give each chunk its paper and position when the export didn't, numbering a paper's chunks in
+// file order; context expansion finds neighbouring chunks through these fields
+function addChunkOrdering(metadata: any, chunkCounts: Map<string, number>) {
+  if (metadata.doc_index === undefined && metadata.pmid) {
+    metadata.doc_index = String(metadata.pmid);
+  }
+  if (metadata.doc_index === undefined) return;
+
+  const docIndex = String(metadata.doc_index);
+  const position = chunkCounts.get(docIndex) || 0;
+  chunkCounts.set(docIndex, position + 1);
+  if (metadata.chunk_index === undefined) {
+    metadata.chunk_index = String(position);
+  }
+}
+
 async function processStreamingJSON(filePath: string, sql: any) {
   const BATCH_SIZE = 100;
   const CHUNK_SIZE = 5 * 1024 * 1024; // 5MB chunks
@@ -53,6 +69,7 @@ async function processStreamingJSON(filePath: string, sql: any) {
 
   let buffer = '';
   let batch: EmbeddingRecord[] = [];
+  const chunkCounts = new Map<string, number>();
   let totalInserted = 0;
   let totalProcessed = 0;
   let bytesProcessed = 0;
@@ -132,6 +149,7 @@ async function processStreamingJSON(filePath: string, sql: any) {
                 if (typeof metadata === 'string') {
                   metadata = JSON.parse(metadata);
                 }
+                addChunkOrdering(metadata, chunkCounts);
 
                 batch.push({
                   content: content,
@@ -2,17 +2,33 @@
  * Client-side helper for handling async RAG queries with background processing
  */
 
+import { authHeaders } from './auth-client';
+
 export interface QueryInitiationResponse {
   jobId: string;
+  conversationId: string;
   message: string;
   checkStatusUrl: string;
+  streamUrl: string; // Follow the answer as Server-Sent Events instead of polling checkStatusUrl
   estimatedTime: string;
 }
 
 export interface QueryStatusResponse {
   jobId: string;
-  status: "pending" | "processing" | "completed" | "failed";
+  conversationId?: string;
+  status: "pending" | "processing" | "completed" | "failed" | "cancelled";
+  retrievalQuery?: string;
+  retrievalStrategy?: string; // Strategy the context chunks were retrieved with
+  queryVariants?: string[]; // Extra queries searched by the multi-query strategies
+  hypotheticalPassage?: string; // Passage embedded by the hyde strategy
+  queryExpansions?: { term: string; synonyms: string[]; source: string }[]; // Synonyms added to the BM25 query
+  plan?: { subQuestions: { question: string; chunks: { id: number; ragId?: string }[]; answer?: string }[] }; // Sub-questions of a decomposed question
   progress?: string;
+  attempt?: number; // Processing attempt; the answer restarts when it increases
+  nextAttemptAt?: string; // Set while a re-queued job waits for its retry
+  partialResponse?: string; // Answer text written since the requested cursor
+  cursor?: number; // Pass back to checkQueryStatus to receive only newer text
+  sequence?: number;
   estimatedTime?: string;
   elapsedTime?: number;
   response?: string;
@@ -20,16 +36,66 @@ export interface QueryStatusResponse {
   allMatchingChunks?: any[];
   confidence?: number;
   verified?: boolean;
+  pipelineTrace?: StageTraceResponse[]; // Timing and intermediate output of each pipeline stage
+  tokenUsage?: { promptTokens: number; completionTokens: number; totalTokens: number }; // As reported by the model API
   completedAt?: string;
   error?: string;
+  errorDetails?: JobErrorDetails[];
+}
+
+export interface JobErrorDetails {
+  message: string;
+  code: string;
+  step?: string;
+  status?: number;
+  transient: boolean;
+  attempt: number;
+  occurredAt: string;
+}
+
+export interface StageTraceResponse {
+  name: string;
+  status: "completed" | "skipped";
+  durationMs: number;
+  output?: Record<string, unknown>;
+}
+
+// Metadata filters on retrieval; lists match case-insensitively (journals) or exactly (PMIDs)
+export interface QueryFilters {
+  yearFrom?: number;
+  yearTo?: number;
+  includeJournals?: string[];
+  excludeJournals?: string[];
+  authorContains?: string;
+  pmidAllow?: string[];
+  pmidDeny?: string[];
+}
+
+// Score modifiers on top of retrieval relevance; each field overrides the RAG's own setting
+export interface QueryScoring {
+  recencyHalfLife?: number; // Years after which the recency factor halves
+  recencyWeight?: number; // Share of the score subject to the decay (0-1, default 0.5)
+  citationWeight?: number; // Largest boost from metadata.citation_count (0-1)
+  publicationTypeBoosts?: Record<string, number>; // Multipliers by metadata.publication_type
 }
 
 export interface QueryOptions {
   ragId: string;
+  ragIds?: string[]; // Search these RAGs together with ragId, and merge the results
   query: string;
+  conversationId?: string; // Continue an existing conversation
   model?: string;
   complexity?: string;
   retrievalStrategy?: string;
+  rrfK?: number; // Reciprocal rank fusion constant (rrf and multi-query strategies)
+  rrfDepth?: number; // Chunks taken from each ranked list before fusion
+  rerank?: boolean; // Rerank the top candidates with the reranker model
+  mmrLambda?: number; // Diversify the context with MMR: 1 = relevance only, 0 = diversity only
+  filters?: QueryFilters;
+  scoring?: QueryScoring;
+  contextExpansion?: "none" | "neighbors" | "document"; // Add each context chunk's neighbours or whole paper
+  neighborWindow?: number; // Chunks added on each side with "neighbors" (1-3)
+  decomposition?: "none" | "retrieve" | "answer"; // Plan sub-questions for complex and interpretive questions
   enableVerification?: boolean;
   maxChunksPerPaper?: number;
   targetTokens?: number;
@@ -37,11 +103,14 @@ export interface QueryOptions {
   vectorWeight?: number;
   textWeight?: number;
   outputStyle?: string;
+  pipeline?: string[]; // Stage names to run instead of the RAG's pipeline
 }
 
 export interface AsyncQueryCallbacks {
   onProgress?: (status: QueryStatusResponse) => void;
+  onPartialResponse?: (text: string, delta: string) => void; // Answer so far, and the newly received part
   onComplete?: (result: QueryStatusResponse) => void;
+  onCancel?: (result: QueryStatusResponse) => void;
   onError?: (error: Error) => void;
 }
 
@@ -53,6 +122,7 @@ export async function initiateQuery(options: QueryOptions): Promise<QueryInitiat
     method: 'POST',
     headers: {
       'Content-Type': 'application/json',
+      ...authHeaders(),
     },
     body: JSON.stringify(options),
   });
@@ -66,13 +136,14 @@ export async function initiateQuery(options: QueryOptions): Promise<QueryInitiat
 }
 
 /**
- * Check the status of a query job
+ * Check the status of a query job, returning partial answer text after the given cursor
  */
-export async function checkQueryStatus(jobId: string): Promise<QueryStatusResponse> {
-  const response = await fetch(`/.netlify/functions/query-status?jobId=${jobId}`, {
+export async function checkQueryStatus(jobId: string, cursor: number = 0): Promise<QueryStatusResponse> {
+  const response = await fetch(`/.netlify/functions/query-status?jobId=${jobId}&cursor=${cursor}`, {
     method: 'GET',
     headers: {
       'Content-Type': 'application/json',
+      ...authHeaders(),
     },
   });
 
@@ -84,6 +155,27 @@ export async function checkQueryStatus(jobId: string): Promise<QueryStatusRespon
   return response.json();
 }
 
+/**
+ * Cancel a pending or running query job
+ */
+export async function cancelQuery(jobId: string): Promise<{ jobId: string; status: string }> {
+  const response = await fetch('/.netlify/functions/query-cancel', {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      ...authHeaders(),
+    },
+    body: JSON.stringify({ jobId }),
+  });
+
+  if (!response.ok) {
+    const error = await response.json();
+    throw new Error(error.error || 'Failed to cancel query');
+  }
+
+  return response.json();
+}
+
 /**
  * Execute a query with polling and callbacks
  */
@@ -99,6 +191,9 @@ export async function executeAsyncQuery(
     console.log('Query initiated:', initResponse.jobId);
 
     // Poll for results
+    let cursor = 0;
+    let partialResponse = '';
+    let attempt = 0;
     for (let i = 0; i < maxPolls; i++) {
       // Wait before polling (except first iteration)
       if (i > 0) {
@@ -106,7 +201,27 @@ export async function executeAsyncQuery(
       }
 
       try {
-        const status = await checkQueryStatus(initResponse.jobId);
+        const status = await checkQueryStatus(initResponse.jobId, cursor);
+
+        // A retried job writes its answer again from the start
+        const restarted = attempt > 0 && (status.attempt || 0) > attempt;
+        if (status.attempt) {
+          attempt = status.attempt;
+        }
+
+        if (restarted) {
+          partialResponse = '';
+          cursor = 0;
+          callbacks.onPartialResponse?.('', '');
+        } else {
+          if (status.partialResponse) {
+            partialResponse += status.partialResponse;
+            callbacks.onPartialResponse?.(partialResponse, status.partialResponse);
+          }
+          if (status.cursor !== undefined) {
+            cursor = status.cursor;
+          }
+        }
 
         // Call progress callback
         if (callbacks.onProgress) {
@@ -119,6 +234,11 @@ export async function executeAsyncQuery(
             callbacks.onComplete(status);
           }
           return status;
+        } else if (status.status === 'cancelled') {
+          if (callbacks.onCancel) {
+            callbacks.onCancel(status);
+          }
+          return status;
         } else if (status.status === 'failed') {
           const error = new Error(status.error || 'Query processing failed');
           if (callbacks.onError) {
@@ -0,0 +1,76 @@
+/**
+ * Client-side session helpers for the signed tokens issued by the auth function
+ */
+
+const TOKEN_KEY = 'auth_token';
+const EXPIRES_KEY = 'auth_expires_at';
+const USERNAME_KEY = 'auth_username';
+
+export interface LoginResponse {
+  token: string;
+  username: string;
+  expiresAt: string;
+}
+
+/**
+ * Exchange credentials for a session token and store it
+ */
+export async function login(username: string, password: string): Promise<LoginResponse> {
+  const response = await fetch('/.netlify/functions/auth', {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+    },
+    body: JSON.stringify({ username, password }),
+  });
+
+  const data = await response.json();
+
+  if (!response.ok) {
+    throw new Error(data.message || data.error || 'Login failed');
+  }
+
+  localStorage.setItem(TOKEN_KEY, data.token);
+  localStorage.setItem(EXPIRES_KEY, data.expiresAt);
+  localStorage.setItem(USERNAME_KEY, data.username);
+
+  return data;
+}
+
+/**
+ * Remove the stored session
+ */
+export function logout(): void {
+  localStorage.removeItem(TOKEN_KEY);
+  localStorage.removeItem(EXPIRES_KEY);
+  localStorage.removeItem(USERNAME_KEY);
+}
+
+/**
+ * Get the stored token if it has not expired yet
+ */
+export function getAuthToken(): string | null {
+  const token = localStorage.getItem(TOKEN_KEY);
+  const expiresAt = localStorage.getItem(EXPIRES_KEY);
+
+  if (!token || !expiresAt || new Date(expiresAt).getTime() <= Date.now()) {
+    return null;
+  }
+
+  return token;
+}
+
+/**
+ * Get the username of the current session
+ */
+export function getUsername(): string | null {
+  return getAuthToken() ? localStorage.getItem(USERNAME_KEY) : null;
+}
+
+/**
+ * Headers to send with every function request
+ */
+export function authHeaders(): Record<string, string> {
+  const token = getAuthToken();
+  return token ? { 'Authorization': `Bearer ${token}` } : {};
+}
@@ -0,0 +1,91 @@
+import { createHash, createHmac, timingSafeEqual } from "node:crypto";
+import type { HandlerEvent } from "@netlify/functions";
+
+// Secret used to sign session tokens. Must be set in Netlify environment variables.
+const AUTH_SECRET = process.env.AUTH_SECRET;
+
+if (!AUTH_SECRET) {
+  throw new Error("AUTH_SECRET environment variable is required");
+}
+
+// Token lifetime (defaults to 12 hours)
+const TOKEN_TTL_SECONDS = (parseInt(process.env.AUTH_TOKEN_TTL_HOURS || "") || 12) * 3600;
+
+export interface SessionPayload {
+  sub: string; // User ID
+  username: string;
+  iat: number; // Issued at (seconds since epoch)
+  exp: number; // Expires at (seconds since epoch)
+}
+
+function base64UrlEncode(input: string | Buffer): string {
+  return Buffer.from(input).toString("base64url");
+}
+
+function sign(data: string): string {
+  return createHmac("sha256", AUTH_SECRET!).update(data).digest("base64url");
+}
+
+// Constant-time string comparison (hashing first so lengths always match)
+function safeEqual(a: string, b: string): boolean {
+  const hashA = createHash("sha256").update(a).digest();
+  const hashB = createHash("sha256").update(b).digest();
+  return timingSafeEqual(hashA, hashB);
+}
+
+/**
+ * Issue a signed, expiring session token for a user
+ */
+export function issueToken(userId: string, username: string): { token: string; expiresAt: Date } {
+  const now = Math.floor(Date.now() / 1000);
+  const payload: SessionPayload = {
+    sub: userId,
+    username,
+    iat: now,
+    exp: now + TOKEN_TTL_SECONDS,
+  };
+
+  const encodedPayload = base64UrlEncode(JSON.stringify(payload));
+  const token = `${encodedPayload}.${sign(encodedPayload)}`;
+
+  return { token, expiresAt: new Date(payload.exp * 1000) };
+}
+
+/**
+ * Verify a session token and return its payload, or null if invalid or expired
+ */
+export function verifyToken(token: string): SessionPayload | null {
+  const [encodedPayload, signature] = token.split(".");
+  if (!encodedPayload || !signature) return null;
+
+  if (!safeEqual(signature, sign(encodedPayload))) return null;
+
+  try {
+    const payload = JSON.parse(Buffer.from(encodedPayload, "base64url").toString("utf8")) as SessionPayload;
+    if (!payload.sub || typeof payload.exp !== "number") return null;
+    if (payload.exp <= Math.floor(Date.now() / 1000)) return null;
+    return payload;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Extract and verify the bearer token from a function request
+ */
+export function authenticateRequest(event: HandlerEvent): SessionPayload | null {
+  const header = event.headers["authorization"] || event.headers["Authorization"];
+  if (!header || !header.startsWith("Bearer ")) return null;
+  return verifyToken(header.substring(7).trim());
+}
+
+/**
+ * Standard 401 response for functions
+ */
+export function unauthorizedResponse(headers: Record<string, string>) {
+  return {
+    statusCode: 401,
+    headers,
+    body: JSON.stringify({ error: "Unauthorized", message: "A valid session token is required" }),
+  };
+}
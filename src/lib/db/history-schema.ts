@@ -0,0 +1,45 @@
+import { pgTable, text, timestamp, jsonb, uuid, boolean } from "drizzle-orm/pg-core";
+import { users } from "./users-schema";
+import type { QueryJob } from "./jobs-schema";
+import type { QueryExpansion } from "../rag/synonyms";
+
+// Conversations group successive questions so follow-ups keep their context
+export const conversations = pgTable("conversations", {
+  id: uuid("id").primaryKey().defaultRandom(),
+  userId: uuid("user_id").notNull().references(() => users.id, { onDelete: "cascade" }),
+  title: text("title").notNull(), // First question, truncated
+
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
+});
+
+// Durable per-user query history (jobs expire, history is kept until deleted)
+export const queryHistory = pgTable("query_history", {
+  id: uuid("id").primaryKey().defaultRandom(),
+  userId: uuid("user_id").notNull().references(() => users.id, { onDelete: "cascade" }),
+  conversationId: uuid("conversation_id").references(() => conversations.id, { onDelete: "cascade" }),
+  jobId: uuid("job_id"), // Originating job (may have been cleaned up since)
+
+  // Question and the parameters it was asked with
+  ragId: text("rag_id").notNull(),
+  query: text("query").notNull(),
+  retrievalQuery: text("retrieval_query"), // Standalone rewrite of a follow-up question
+  queryExpansions: jsonb("query_expansions").$type<QueryExpansion[]>(), // Synonyms added to the BM25 query
+  retrievalStrategy: text("retrieval_strategy"), // Strategy the context chunks were retrieved with
+  queryVariants: jsonb("query_variants").$type<string[]>(), // Extra queries searched by the multi-query strategies
+  hypotheticalPassage: text("hypothetical_passage"), // Passage embedded by the hyde strategy
+  params: jsonb("params").notNull().$type<QueryJob["params"]>(),
+
+  // Answer data
+  response: text("response").notNull(),
+  sources: jsonb("sources"), // Chunks used as context
+  allMatchingChunks: jsonb("all_matching_chunks"), // All chunks for display
+  confidence: text("confidence"),
+  verified: boolean("verified").notNull().default(false),
+
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
+export type Conversation = typeof conversations.$inferSelect;
+export type QueryHistoryEntry = typeof queryHistory.$inferSelect;
+export type NewQueryHistoryEntry = typeof queryHistory.$inferInsert;
@@ -0,0 +1,146 @@
+import { and, asc, desc, eq, sql } from "drizzle-orm";
+import { createJobsConnection } from "./jobs";
+import {
+  conversations,
+  queryHistory,
+  type Conversation,
+  type QueryHistoryEntry,
+  type NewQueryHistoryEntry
+} from "./history-schema";
+
+const jobsDb = createJobsConnection();
+
+// Full-text document for search: question plus answer
+const searchDocument = sql`to_tsvector('english', ${queryHistory.query} || ' ' || ${queryHistory.response})`;
+
+/**
+ * Start a new conversation for a user
+ */
+export async function createConversation(userId: string, firstQuery: string): Promise<Conversation> {
+  const [conversation] = await jobsDb
+    .insert(conversations)
+    .values({ userId, title: firstQuery.substring(0, 100) })
+    .returning();
+
+  return conversation;
+}
+
+/**
+ * Get a conversation, only if it belongs to the given user
+ */
+export async function getConversation(userId: string, conversationId: string): Promise<Conversation | null> {
+  const [conversation] = await jobsDb
+    .select()
+    .from(conversations)
+    .where(and(eq(conversations.id, conversationId), eq(conversations.userId, userId)))
+    .limit(1);
+
+  return conversation || null;
+}
+
+/**
+ * Get the turns of a conversation in order (optionally only the most recent ones)
+ */
+export async function getConversationTurns(
+  userId: string,
+  conversationId: string,
+  limit?: number
+): Promise<QueryHistoryEntry[]> {
+  const condition = and(eq(queryHistory.conversationId, conversationId), eq(queryHistory.userId, userId));
+
+  if (limit) {
+    const recent = await jobsDb
+      .select()
+      .from(queryHistory)
+      .where(condition)
+      .orderBy(desc(queryHistory.createdAt))
+      .limit(limit);
+    return recent.reverse();
+  }
+
+  return jobsDb
+    .select()
+    .from(queryHistory)
+    .where(condition)
+    .orderBy(asc(queryHistory.createdAt));
+}
+
+/**
+ * Save a completed question/answer to the user's history
+ */
+export async function saveHistoryEntry(entry: NewQueryHistoryEntry): Promise<QueryHistoryEntry> {
+  const [saved] = await jobsDb
+    .insert(queryHistory)
+    .values(entry)
+    .returning();
+
+  if (entry.conversationId) {
+    await jobsDb
+      .update(conversations)
+      .set({ updatedAt: new Date() })
+      .where(eq(conversations.id, entry.conversationId));
+  }
+
+  return saved;
+}
+
+/**
+ * List a user's history, newest first, optionally filtered by a full-text search
+ */
+export async function listHistory(
+  userId: string,
+  options: { search?: string; limit?: number; offset?: number } = {}
+) {
+  const { search, limit = 20, offset = 0 } = options;
+
+  const conditions = [eq(queryHistory.userId, userId)];
+  if (search) {
+    conditions.push(sql`${searchDocument} @@ websearch_to_tsquery('english', ${search})`);
+  }
+
+  return jobsDb
+    .select({
+      id: queryHistory.id,
+      conversationId: queryHistory.conversationId,
+      ragId: queryHistory.ragId,
+      query: queryHistory.query,
+      model: sql<string | null>`${queryHistory.params}->>'model'`,
+      complexity: sql<string | null>`${queryHistory.params}->>'complexity'`,
+      preview: sql<string>`left(${queryHistory.response}, 200)`,
+      createdAt: queryHistory.createdAt,
+    })
+    .from(queryHistory)
+    .where(and(...conditions))
+    .orderBy(
+      ...(search
+        ? [sql`ts_rank(${searchDocument}, websearch_to_tsquery('english', ${search})) DESC`, desc(queryHistory.createdAt)]
+        : [desc(queryHistory.createdAt)])
+    )
+    .limit(limit)
+    .offset(offset);
+}
+
+/**
+ * Get a single history entry, only if it belongs to the given user
+ */
+export async function getHistoryEntry(userId: string, id: string): Promise<QueryHistoryEntry | null> {
+  const [entry] = await jobsDb
+    .select()
+    .from(queryHistory)
+    .where(and(eq(queryHistory.id, id), eq(queryHistory.userId, userId)))
+    .limit(1);
+
+  return entry || null;
+}
+
+/**
+ * Delete a history entry, returns false if it did not exist for this user
+ */
+export async function deleteHistoryEntry(userId: string, id: string): Promise<boolean> {
+  const deleted = await jobsDb
+    .delete(queryHistory)
+    .where(and(eq(queryHistory.id, id), eq(queryHistory.userId, userId)))
+    .returning({ id: queryHistory.id });
+
+  return deleted.length > 0;
+}
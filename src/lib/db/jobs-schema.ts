@@ -1,26 +1,61 @@
-import { pgTable, text, timestamp, jsonb, uuid, pgEnum } from "drizzle-orm/pg-core";
+import { pgTable, text, timestamp, jsonb, uuid, integer, pgEnum } from "drizzle-orm/pg-core";
+import { users } from "./users-schema";
+import { conversations } from "./history-schema";
+import type { RetrievalFilters } from "../rag/filters";
+import type { ScoringSettings } from "../rag/config";
+import type { TokenUsage } from "../rag/tokens";
+import type { QueryPlan } from "../rag/decomposition";
+import type { QueryExpansion } from "../rag/synonyms";
 
 // Enum for job status
 export const jobStatusEnum = pgEnum("job_status", [
   "pending",
   "processing",
   "completed",
-  "failed"
+  "failed",
+  "cancelled"
 ]);
 
+// Structured record of a failed processing attempt
+export interface JobErrorRecord {
+  message: string;
+  code: string; // DEEPINFRA_ERROR, DATABASE_ERROR, STALE_HEARTBEAT, PROCESSING_ERROR
+  step?: string; // Progress message of the step that failed
+  status?: number; // HTTP status returned by an upstream API
+  transient: boolean; // Whether the job was eligible for another attempt
+  attempt: number;
+  occurredAt: string;
+}
+
 // Query jobs table for tracking async RAG queries
 export const queryJobs = pgTable("query_jobs", {
   id: uuid("id").primaryKey().defaultRandom(),
   status: jobStatusEnum("status").notNull().default("pending"),
   progress: text("progress"), // Progress message for UI
 
+  // Owner of the job - only this user can read its results
+  userId: uuid("user_id").references(() => users.id, { onDelete: "cascade" }),
+
+  // Conversation this question belongs to (previous turns are used as context)
+  conversationId: uuid("conversation_id").references(() => conversations.id, { onDelete: "set null" }),
+
   // Request parameters
   params: jsonb("params").notNull().$type<{
-    ragId: string;
+    ragId: string; // The first (or only) RAG searched
+    ragIds?: string[]; // Every RAG searched, ragId first, for a federated search
     query: string;
     model?: string;
     complexity?: string;
     retrievalStrategy?: string;
+    rrfK?: number; // Reciprocal rank fusion constant
+    rrfDepth?: number; // Chunks taken from each ranked list before fusion
+    rerank?: boolean; // Rerank the top candidates before building the context
+    mmrLambda?: number; // Diversify the context with MMR: 1 = relevance only, 0 = diversity only
+    filters?: RetrievalFilters; // Metadata filters applied to retrieval
+    scoring?: Partial<ScoringSettings>; // Recency decay and metadata boosts requested on top of the RAG's
+    contextExpansion?: string; // "none", "neighbors" or "document"
+    neighborWindow?: number; // Chunks added on each side with "neighbors" expansion
+    decomposition?: string; // "none", "retrieve" or "answer"
     enableVerification?: boolean;
     maxChunksPerPaper?: number;
     targetTokens?: number;
@@ -28,25 +63,65 @@ export const queryJobs = pgTable("query_jobs", {
     vectorWeight?: number;
     textWeight?: number;
     outputStyle?: string;
+    pipeline?: string[]; // Stage names, overriding the RAG's pipeline
   }>(),
 
-  // Response data
+  // Answer text written so far while the LLM is still generating
+  partialResponse: text("partial_response"),
+  partialSequence: integer("partial_sequence").notNull().default(0), // Incremented on every append
+
+  // Response data. The retrieval query, sources and matching chunks are written when retrieval
+  // finishes, and the response and confidence when verification does; the rest on completion.
+  retrievalQuery: text("retrieval_query"), // Standalone rewrite of a follow-up question
+  queryExpansions: jsonb("query_expansions").$type<QueryExpansion[]>(), // Synonyms added to the BM25 query
+  retrievalStrategy: text("retrieval_strategy"), // Strategy the context chunks were retrieved with
+  queryVariants: jsonb("query_variants").$type<string[]>(), // Extra queries searched by the multi-query strategies
+  hypotheticalPassage: text("hypothetical_passage"), // Passage embedded by the hyde strategy
   response: text("response"), // LLM response text
   sources: jsonb("sources"), // Retrieved chunks and metadata
   allMatchingChunks: jsonb("all_matching_chunks"), // All chunks for display
   confidence: text("confidence"), // Confidence score if verification enabled
+  pipelineTrace: jsonb("pipeline_trace"), // Timing and intermediate output of each pipeline stage
+  tokenUsage: jsonb("token_usage").$type<TokenUsage>(), // Prompt and completion tokens of the LLM calls
+  plan: jsonb("plan").$type<QueryPlan>(), // Sub-questions and drafted answers of a decomposed question
 
   // Error tracking
   error: text("error"), // Error message if failed
+  errorDetails: jsonb("error_details").$type<JobErrorRecord[]>(), // One record per failed attempt
+
+  // Retry and stuck-job recovery
+  attempts: integer("attempts").notNull().default(0), // Number of times processing has started
+  lastHeartbeatAt: timestamp("last_heartbeat_at"), // Updated regularly while processing
+  nextAttemptAt: timestamp("next_attempt_at"), // When a re-queued job should be dispatched again
 
   // Timestamps
   createdAt: timestamp("created_at").defaultNow().notNull(),
   startedAt: timestamp("started_at"), // When processing started
-  completedAt: timestamp("completed_at"), // When job finished (success or failure)
+  completedAt: timestamp("completed_at"), // When job finished (success, failure or cancellation)
 
-  // TTL for cleanup - jobs older than 1 hour can be deleted
+  // TTL for cleanup - unfinished jobs expire 1 hour after creation; finished jobs get
+  // a new expiry from the retention period of their final status
   expiresAt: timestamp("expires_at").notNull(),
 });
 
+// Slim copies of expired jobs, kept when cleanup runs in archive mode
+export const queryJobsArchive = pgTable("query_jobs_archive", {
+  id: uuid("id").primaryKey(),
+  userId: uuid("user_id"),
+  conversationId: uuid("conversation_id"),
+  status: jobStatusEnum("status").notNull(),
+  params: jsonb("params").notNull().$type<QueryJob["params"]>(),
+  response: text("response"),
+  confidence: text("confidence"),
+  error: text("error"),
+  errorDetails: jsonb("error_details").$type<JobErrorRecord[]>(),
+  attempts: integer("attempts").notNull().default(0),
+
+  createdAt: timestamp("created_at").notNull(),
+  completedAt: timestamp("completed_at"),
+  archivedAt: timestamp("archived_at").defaultNow().notNull(),
+});
+
 export type QueryJob = typeof queryJobs.$inferSelect;
-export type NewQueryJob = typeof queryJobs.$inferInsert;
\ No newline at end of file
+export type NewQueryJob = typeof queryJobs.$inferInsert;
+export type ArchivedQueryJob = typeof queryJobsArchive.$inferSelect;
\ No newline at end of file
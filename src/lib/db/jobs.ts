@@ -1,7 +1,14 @@
 import { drizzle } from "drizzle-orm/neon-http";
 import { neon } from "@neondatabase/serverless";
-import { eq } from "drizzle-orm";
-import { queryJobs, type QueryJob, type NewQueryJob } from "./jobs-schema";
+import { and, eq, ne, gt, lt, lte, or, inArray, isNull, sql as sqlExpr } from "drizzle-orm";
+import { queryJobs, queryJobsArchive, type QueryJob, type NewQueryJob, type JobErrorRecord } from "./jobs-schema";
+import { users } from "./users-schema";
+import { conversations, queryHistory } from "./history-schema";
+import type { RetrievalFilters } from "../rag/filters";
+import { selectRetrievalStrategy, type ScoringSettings } from "../rag/config";
+import type { TokenUsage } from "../rag/tokens";
+import type { QueryPlan } from "../rag/decomposition";
+import type { QueryExpansion } from "../rag/synonyms";
 
 // Use a separate JOBS database connection
 // This should point to a dedicated jobs database on Neon
@@ -12,7 +19,16 @@ if (!JOBS_DATABASE_URL) {
 }
 
 const sql = neon(JOBS_DATABASE_URL);
-const jobsDb = drizzle(sql, { schema: { queryJobs } });
+const jobsDb = drizzle(sql, { schema: { queryJobs, queryJobsArchive, users, conversations, queryHistory } });
+
+const DAY_MS = 24 * 3600 * 1000;
+
+// How long finished jobs are kept after completion, per final status
+export const JOB_RETENTION_MS = {
+  completed: (parseInt(process.env.JOB_RETENTION_COMPLETED_DAYS || "") || 7) * DAY_MS,
+  failed: (parseInt(process.env.JOB_RETENTION_FAILED_DAYS || "") || 30) * DAY_MS,
+  cancelled: (parseInt(process.env.JOB_RETENTION_CANCELLED_DAYS || "") || 1) * DAY_MS,
+};
 
 /**
  * Create a database connection for testing
@@ -22,14 +38,24 @@ export function createJobsConnection() {
 }
 
 /**
- * Create a new query job
+ * Create a new query job owned by the given user, optionally as part of a conversation
  */
-export async function createQueryJob(params: {
-  ragId: string;
+export async function createQueryJob(userId: string, params: {
+  ragId: string; // The first (or only) RAG searched
+  ragIds?: string[]; // Every RAG searched, ragId first, for a federated search
   query: string;
   model?: string;
   complexity?: string;
   retrievalStrategy?: string;
+  rrfK?: number; // Reciprocal rank fusion constant
+  rrfDepth?: number; // Chunks taken from each ranked list before fusion
+  rerank?: boolean; // Rerank the top candidates before building the context
+  mmrLambda?: number; // Diversify the context with MMR: 1 = relevance only, 0 = diversity only
+  filters?: RetrievalFilters; // Metadata filters applied to retrieval
+  scoring?: Partial<ScoringSettings>; // Recency decay and metadata boosts requested on top of the RAG's
+  contextExpansion?: string; // "none", "neighbors" or "document"
+  neighborWindow?: number; // Chunks added on each side with "neighbors" expansion
+  decomposition?: string; // "none", "retrieve" or "answer"
   enableVerification?: boolean;
   maxChunksPerPaper?: number;
   targetTokens?: number;
@@ -37,12 +63,15 @@ export async function createQueryJob(params: {
   vectorWeight?: number;
   textWeight?: number;
   outputStyle?: string;
-}): Promise<QueryJob> {
+  pipeline?: string[]; // Stage names, overriding the RAG's pipeline
+}, conversationId?: string): Promise<QueryJob> {
   const expiresAt = new Date(Date.now() + 3600000); // 1 hour from now
 
   const [job] = await jobsDb
     .insert(queryJobs)
     .values({
+      userId,
+      conversationId,
       params,
       expiresAt,
     })
@@ -52,20 +81,21 @@ export async function createQueryJob(params: {
 }
 
 /**
- * Get a job by ID
+ * Get a job by ID, only if it belongs to the given user
  */
-export async function getQueryJob(jobId: string): Promise<QueryJob | null> {
+export async function getQueryJob(jobId: string, userId: string): Promise<QueryJob | null> {
   const [job] = await jobsDb
     .select()
     .from(queryJobs)
-    .where(eq(queryJobs.id, jobId))
+    .where(and(eq(queryJobs.id, jobId), eq(queryJobs.userId, userId)))
     .limit(1);
 
   return job || null;
 }
 
 /**
- * Update job status and progress
+ * Update job status and progress. Cancelled jobs are left untouched, so an empty result
+ * tells the caller the job was cancelled.
  */
 export async function updateJobProgress(
   jobId: string,
@@ -76,6 +106,7 @@ export async function updateJobProgress(
   const updateData: Partial<QueryJob> = {
     status,
     progress,
+    lastHeartbeatAt: new Date(),
   };
 
   if (status === "processing" && !updateData.startedAt) {
@@ -93,60 +124,327 @@ export async function updateJobProgress(
   const result = await jobsDb
     .update(queryJobs)
     .set(updateData)
-    .where(eq(queryJobs.id, jobId))
+    .where(and(eq(queryJobs.id, jobId), ne(queryJobs.status, "cancelled")))
     .returning();
 
   return result;
 }
 
 /**
- * Store job results
+ * Claim a pending job for processing and count the attempt.
+ * Returns null if the job is not pending (already claimed by another invocation, or finished).
  */
-export async function storeJobResults(
-  jobId: string,
-  results: {
-    response: string;
-    sources: any[];
-    allMatchingChunks?: any[];
-    confidence?: number;
-    verified?: boolean;
-  }
-): Promise<void> {
+export async function claimQueryJob(jobId: string): Promise<QueryJob | null> {
+  const now = new Date();
+  const [job] = await jobsDb
+    .update(queryJobs)
+    .set({
+      status: "processing",
+      progress: "Initializing query processing...",
+      attempts: sqlExpr`${queryJobs.attempts} + 1`,
+      startedAt: now,
+      lastHeartbeatAt: now,
+      nextAttemptAt: null,
+      partialResponse: null, // A retried job generates its answer from scratch
+      partialSequence: 0,
+      retrievalQuery: null,
+      sources: null,
+      allMatchingChunks: null,
+      response: null,
+      confidence: null,
+    })
+    .where(and(eq(queryJobs.id, jobId), eq(queryJobs.status, "pending")))
+    .returning();
+
+  return job || null;
+}
+
+/**
+ * Record that a job is still being worked on
+ */
+export async function recordJobHeartbeat(jobId: string): Promise<void> {
+  await jobsDb
+    .update(queryJobs)
+    .set({ lastHeartbeatAt: new Date() })
+    .where(and(eq(queryJobs.id, jobId), eq(queryJobs.status, "processing")));
+}
+
+/**
+ * Cancel a job that hasn't finished yet, only if it belongs to the given user.
+ * Returns null if the job doesn't exist, belongs to someone else or has already finished.
+ */
+export async function cancelQueryJob(jobId: string, userId: string): Promise<QueryJob | null> {
+  const [job] = await jobsDb
+    .update(queryJobs)
+    .set({
+      status: "cancelled",
+      progress: "Cancelled",
+      nextAttemptAt: null,
+      completedAt: new Date(),
+      expiresAt: new Date(Date.now() + JOB_RETENTION_MS.cancelled),
+    })
+    .where(and(
+      eq(queryJobs.id, jobId),
+      eq(queryJobs.userId, userId),
+      inArray(queryJobs.status, ["pending", "processing"])
+    ))
+    .returning();
+
+  return job || null;
+}
+
+/**
+ * Check whether a job has been cancelled by its owner
+ */
+export async function isJobCancelled(jobId: string): Promise<boolean> {
+  const [job] = await jobsDb
+    .select({ status: queryJobs.status })
+    .from(queryJobs)
+    .where(eq(queryJobs.id, jobId))
+    .limit(1);
+
+  return job?.status === "cancelled";
+}
+
+/**
+ * Return a processing job to the queue after a failed attempt, to be dispatched again at nextAttemptAt
+ */
+export async function requeueQueryJob(jobId: string, errorRecord: JobErrorRecord, nextAttemptAt: Date): Promise<void> {
   await jobsDb
+    .update(queryJobs)
+    .set({
+      status: "pending",
+      progress: "Retrying after a temporary error...",
+      error: errorRecord.message,
+      errorDetails: sqlExpr`COALESCE(${queryJobs.errorDetails}, '[]'::jsonb) || ${JSON.stringify([errorRecord])}::jsonb`,
+      nextAttemptAt,
+    })
+    .where(and(eq(queryJobs.id, jobId), eq(queryJobs.status, "processing")));
+}
+
+/**
+ * Find jobs the sweeper should act on: running jobs whose heartbeat is older than staleBefore,
+ * re-queued jobs that are due, and pending jobs created before unstartedBefore that were never picked up.
+ * Includes the owner's username.
+ */
+export async function findJobsToRecover(
+  staleBefore: Date,
+  unstartedBefore: Date,
+  limit: number = 50
+): Promise<{ job: QueryJob; username: string }[]> {
+  const now = new Date();
+
+  return jobsDb
+    .select({ job: queryJobs, username: users.username })
+    .from(queryJobs)
+    .innerJoin(users, eq(queryJobs.userId, users.id))
+    .where(and(
+      gt(queryJobs.expiresAt, now),
+      or(
+        and(
+          eq(queryJobs.status, "processing"),
+          or(
+            lt(queryJobs.lastHeartbeatAt, staleBefore),
+            and(isNull(queryJobs.lastHeartbeatAt), lt(queryJobs.startedAt, staleBefore))
+          )
+        ),
+        and(eq(queryJobs.status, "pending"), lte(queryJobs.nextAttemptAt, now)),
+        and(eq(queryJobs.status, "pending"), isNull(queryJobs.nextAttemptAt), lt(queryJobs.createdAt, unstartedBefore))
+      )
+    ))
+    .limit(limit);
+}
+
+/**
+ * Append newly generated answer text to a job that is still processing
+ */
+export async function appendPartialResponse(jobId: string, text: string): Promise<void> {
+  await jobsDb
+    .update(queryJobs)
+    .set({
+      partialResponse: sqlExpr`COALESCE(${queryJobs.partialResponse}, '') || ${text}`,
+      partialSequence: sqlExpr`${queryJobs.partialSequence} + 1`,
+      lastHeartbeatAt: new Date(),
+    })
+    .where(and(eq(queryJobs.id, jobId), eq(queryJobs.status, "processing")));
+}
+
+/**
+ * Store the retrieval output of a job that is still processing, for clients following its progress
+ */
+export async function storeRetrievalResults(jobId: string, results: {
+  retrievalQuery: string;
+  sources: any[];
+  allMatchingChunks: any[];
+}): Promise<void> {
+  await jobsDb
+    .update(queryJobs)
+    .set({
+      retrievalQuery: results.retrievalQuery,
+      sources: results.sources,
+      allMatchingChunks: results.allMatchingChunks,
+      lastHeartbeatAt: new Date(),
+    })
+    .where(and(eq(queryJobs.id, jobId), eq(queryJobs.status, "processing")));
+}
+
+/**
+ * Store the verified answer of a job that is still processing, for clients following its progress
+ */
+export async function storeVerificationResult(jobId: string, result: { response: string; confidence: number }): Promise<void> {
+  await jobsDb
+    .update(queryJobs)
+    .set({
+      response: result.response,
+      confidence: result.confidence.toString(),
+      lastHeartbeatAt: new Date(),
+    })
+    .where(and(eq(queryJobs.id, jobId), eq(queryJobs.status, "processing")));
+}
+
+export interface JobResults {
+  retrievalQuery?: string;
+  retrievalStrategy?: string;
+  queryVariants?: string[];
+  hypotheticalPassage?: string;
+  queryExpansions?: QueryExpansion[];
+  plan?: QueryPlan;
+  response: string;
+  sources: any[];
+  allMatchingChunks?: any[];
+  confidence?: number;
+  verified?: boolean;
+  tokenUsage?: TokenUsage;
+  pipelineTrace?: any[];
+}
+
+/**
+ * Store job results. Returns false if the job was cancelled before the results could be stored.
+ */
+export async function storeJobResults(jobId: string, results: JobResults): Promise<boolean> {
+  const stored = await jobsDb
     .update(queryJobs)
     .set({
       status: "completed",
+      expiresAt: new Date(Date.now() + JOB_RETENTION_MS.completed),
+      retrievalQuery: results.retrievalQuery,
+      queryExpansions: results.queryExpansions,
+      retrievalStrategy: results.retrievalStrategy,
+      queryVariants: results.queryVariants,
+      hypotheticalPassage: results.hypotheticalPassage,
       response: results.response,
       sources: results.sources,
       allMatchingChunks: results.allMatchingChunks,
       confidence: results.confidence?.toString(),
+      pipelineTrace: results.pipelineTrace,
+      tokenUsage: results.tokenUsage,
+      plan: results.plan,
       completedAt: new Date(),
     })
-    .where(eq(queryJobs.id, jobId));
+    .where(and(eq(queryJobs.id, jobId), ne(queryJobs.status, "cancelled")))
+    .returning({ id: queryJobs.id });
+
+  return stored.length > 0;
 }
 
 /**
- * Mark job as failed
+ * The results of a completed job as query-status and query-stream return them
  */
-export async function markJobFailed(jobId: string, error: string): Promise<void> {
+export function completedJobResponse(job: QueryJob) {
+  return {
+    jobId: job.id,
+    conversationId: job.conversationId,
+    status: job.status,
+    retrievalQuery: job.retrievalQuery,
+    retrievalStrategy: job.retrievalStrategy || selectRetrievalStrategy(job.params.retrievalStrategy),
+    queryVariants: job.queryVariants || undefined,
+    hypotheticalPassage: job.hypotheticalPassage || undefined,
+    queryExpansions: job.queryExpansions || undefined,
+    plan: job.plan,
+    response: job.response,
+    sources: job.sources,
+    allMatchingChunks: job.allMatchingChunks,
+    confidence: job.confidence ? parseFloat(job.confidence) : undefined,
+    verified: job.params.enableVerification,
+    pipelineTrace: job.pipelineTrace,
+    tokenUsage: job.tokenUsage,
+    completedAt: job.completedAt,
+  };
+}
+
+/**
+ * Mark job as failed, keeping a structured record of the error
+ */
+export async function markJobFailed(jobId: string, errorRecord: JobErrorRecord): Promise<void> {
   await jobsDb
     .update(queryJobs)
     .set({
       status: "failed",
-      error,
+      expiresAt: new Date(Date.now() + JOB_RETENTION_MS.failed),
+      error: errorRecord.message,
+      errorDetails: sqlExpr`COALESCE(${queryJobs.errorDetails}, '[]'::jsonb) || ${JSON.stringify([errorRecord])}::jsonb`,
       completedAt: new Date(),
     })
-    .where(eq(queryJobs.id, jobId));
+    .where(and(eq(queryJobs.id, jobId), ne(queryJobs.status, "cancelled")));
+}
+
+export interface CleanupReport {
+  mode: "delete" | "archive";
+  rows: number;
+  bytes: number; // Approximate size of the removed rows
+  byStatus: Record<string, { rows: number; bytes: number }>;
 }
 
 /**
- * Clean up expired jobs (run periodically)
+ * Clean up expired jobs (run periodically by the job-cleanup scheduled function).
+ * In archive mode the jobs are copied to query_jobs_archive without their large JSONB columns.
+ * Works in batches so a large backlog doesn't produce one huge statement.
  */
-export async function cleanupExpiredJobs(): Promise<number> {
+export async function cleanupExpiredJobs(
+  options: { archive?: boolean; batchSize?: number; maxBatches?: number } = {}
+): Promise<CleanupReport> {
+  const { archive = false, batchSize = 500, maxBatches = 20 } = options;
+  const report: CleanupReport = { mode: archive ? "archive" : "delete", rows: 0, bytes: 0, byStatus: {} };
   const now = new Date();
-  const result = await jobsDb
-    .delete(queryJobs)
-    .where(eq(queryJobs.expiresAt, now));
 
-  return result.rowCount || 0;
-}
\ No newline at end of file
+  for (let batch = 0; batch < maxBatches; batch++) {
+    const expired = sqlExpr`
+      DELETE FROM query_jobs
+      WHERE id IN (
+        SELECT id FROM query_jobs WHERE expires_at < ${now} ORDER BY expires_at LIMIT ${batchSize}
+      )
+      RETURNING *, pg_column_size(query_jobs.*) AS row_bytes`;
+
+    const result = await jobsDb.execute(archive
+      ? sqlExpr`
+        WITH deleted AS (${expired}),
+        archived AS (
+          INSERT INTO query_jobs_archive
+            (id, user_id, conversation_id, status, params, response, confidence, error, error_details, attempts, created_at, completed_at)
+          SELECT id, user_id, conversation_id, status, params, response, confidence, error, error_details, attempts, created_at, completed_at
+          FROM deleted
+          ON CONFLICT (id) DO NOTHING
+        )
+        SELECT status, COUNT(*)::int AS rows, COALESCE(SUM(row_bytes), 0)::bigint AS bytes FROM deleted GROUP BY status`
+      : sqlExpr`
+        WITH deleted AS (${expired})
+        SELECT status, COUNT(*)::int AS rows, COALESCE(SUM(row_bytes), 0)::bigint AS bytes FROM deleted GROUP BY status`
+    );
+
+    let batchRows = 0;
+    for (const row of result.rows as { status: string; rows: number; bytes: string | number }[]) {
+      const rows = Number(row.rows);
+      const bytes = Number(row.bytes);
+      const totals = report.byStatus[row.status] || (report.byStatus[row.status] = { rows: 0, bytes: 0 });
+      totals.rows += rows;
+      totals.bytes += bytes;
+      report.rows += rows;
+      report.bytes += bytes;
+      batchRows += rows;
+    }
+
+    if (batchRows < batchSize) break;
+  }
+
+  return report;
+}
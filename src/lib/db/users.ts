@@ -0,0 +1,44 @@
+import { eq } from "drizzle-orm";
+import { createJobsConnection } from "./jobs";
+import { users, type User } from "./users-schema";
+
+const jobsDb = createJobsConnection();
+
+/**
+ * Get a user by username
+ */
+export async function getUserByUsername(username: string): Promise<User | null> {
+  const [user] = await jobsDb
+    .select()
+    .from(users)
+    .where(eq(users.username, username))
+    .limit(1);
+
+  return user || null;
+}
+
+/**
+ * Create a user, or reset the password of an existing one
+ */
+export async function upsertUser(username: string, passwordHash: string): Promise<User> {
+  const [user] = await jobsDb
+    .insert(users)
+    .values({ username, passwordHash })
+    .onConflictDoUpdate({
+      target: users.username,
+      set: { passwordHash },
+    })
+    .returning();
+
+  return user;
+}
+
+/**
+ * Record a successful login
+ */
+export async function recordLogin(userId: string): Promise<void> {
+  await jobsDb
+    .update(users)
+    .set({ lastLoginAt: new Date() })
+    .where(eq(users.id, userId));
+}
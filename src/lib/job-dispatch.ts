@@ -0,0 +1,24 @@
+import { issueToken } from "./auth";
+
+// Base URL of the deployed site (set by Netlify); falls back to netlify dev
+const SITE_URL = process.env.URL || "http://localhost:8888";
+
+/**
+ * Invoke the background function for a job on behalf of its owner
+ */
+export async function dispatchQueryJob(jobId: string, owner: { id: string; username: string }): Promise<void> {
+  const { token } = issueToken(owner.id, owner.username);
+
+  const response = await fetch(`${SITE_URL}/.netlify/functions/query-process-background`, {
+    method: "POST",
+    headers: {
+      "Content-Type": "application/json",
+      "Authorization": `Bearer ${token}`,
+    },
+    body: JSON.stringify({ jobId }),
+  });
+
+  if (!response.ok) {
+    throw new Error(`Failed to dispatch job ${jobId}: ${response.status} ${response.statusText}`);
+  }
+}
@@ -0,0 +1,25 @@
+import { randomBytes, scryptSync, timingSafeEqual } from "node:crypto";
+
+// scrypt parameters (N=16384, r=8, p=1 are Node's defaults)
+const KEY_LENGTH = 64;
+
+/**
+ * Hash a password as "scrypt$<salt>$<hash>"
+ */
+export function hashPassword(password: string): string {
+  const salt = randomBytes(16).toString("base64url");
+  const hash = scryptSync(password, salt, KEY_LENGTH).toString("base64url");
+  return `scrypt$${salt}$${hash}`;
+}
+
+/**
+ * Check a password against a hash produced by hashPassword
+ */
+export function verifyPassword(password: string, storedHash: string): boolean {
+  const [scheme, salt, hash] = storedHash.split("$");
+  if (scheme !== "scrypt" || !salt || !hash) return false;
+
+  const expected = Buffer.from(hash, "base64url");
+  const actual = scryptSync(password, salt, expected.length);
+  return expected.length === actual.length && timingSafeEqual(expected, actual);
+}
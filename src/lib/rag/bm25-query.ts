@@ -0,0 +1,369 @@
+import { sql, and, type SQL } from "drizzle-orm";
+import { embeddings } from "../db/separate-schema";
+import { createBM25Query, isKeyTerm } from "./text";
+import { normalizeTerm, type QueryExpansion } from "./synonyms";
+
+/**
+ * The BM25 side of a search. A plain question is reduced to its key terms; a query written with
+ * search syntax is parsed instead:
+ *
+ *   "p53 binding" NOT review           quoted phrases, AND / OR / NOT (or a leading -), parentheses
+ *   journal:"Cell Cycle" kinase        field prefixes: title, journal, author, year, pmid
+ *
+ * Terms and phrases reach ParadeDB quoted and escaped, so names like PIN-1 or Ca2+ are searched as
+ * written. The BM25 index only covers the chunk content, so field prefixes become metadata
+ * conditions on the whole search and can only be combined with AND or NOT. A query that doesn't
+ * parse falls back to its key terms.
+ */
+
+export interface BM25Query {
+  text: string; // Query string for content @@@
+  fieldCondition?: SQL; // Metadata conditions from field prefixes
+  syntax: "plain" | "parsed" | "fallback";
+  error?: string; // Why a query with search syntax fell back to its key terms
+}
+
+type QueryField = "title" | "journal" | "author" | "year" | "pmid";
+
+type QueryNode =
+  | { type: "term"; text: string }
+  | { type: "phrase"; text: string }
+  | { type: "field"; field: QueryField; value: string }
+  | { type: "not"; node: QueryNode }
+  | { type: "and" | "or" | "group"; nodes: QueryNode[] };
+
+type Token =
+  | { type: "(" | ")" | "AND" | "OR" | "NOT" }
+  | { type: "phrase" | "word"; text: string }
+  | { type: "field"; field: QueryField; value: string };
+
+interface FieldClause {
+  field: QueryField;
+  value: string;
+  negated: boolean;
+}
+
+const QUERY_FIELDS: Record<string, QueryField> = {
+  title: "title",
+  journal: "journal",
+  author: "author",
+  authors: "author",
+  year: "year",
+  pmid: "pmid",
+};
+
+const QUERY_LIMITS = {
+  MAX_CLAUSES: 16, // Terms, phrases and fields in one query
+  MAX_VALUE_LENGTH: 200
+};
+
+class QuerySyntaxError extends Error {}
+
+// Quotes, uppercase operators, a leading minus or a known field prefix mark a query as written with search syntax
+function hasSearchSyntax(query: string): boolean {
+  return /["\u201C\u201D]/.test(query)
+    || /(^|[\s(])(AND|OR|NOT)(?=[\s(]|$)/.test(query)
+    || /(^|[\s(])-[\w"(]/.test(query)
+    || new RegExp(`(^|[\\s(])(${Object.keys(QUERY_FIELDS).join('|')}):`, 'i').test(query);
+}
+
+function tokenize(query: string): Token[] {
+  const input = query.replace(/[\u201C\u201D]/g, '"');
+  const tokens: Token[] = [];
+  let position = 0;
+
+  const readPhrase = (): string => {
+    const end = input.indexOf('"', position + 1);
+    if (end === -1) throw new QuerySyntaxError("Unclosed quote");
+    const text = input.substring(position + 1, end);
+    position = end + 1;
+    return text;
+  };
+
+  while (position < input.length) {
+    const char = input[position];
+    if (/\s/.test(char)) {
+      position++;
+    } else if (char === '(' || char === ')') {
+      tokens.push({ type: char });
+      position++;
+    } else if (char === '"') {
+      tokens.push({ type: "phrase", text: readPhrase() });
+    } else if (char === '-' && /[\w"(]/.test(input[position + 1] || '')) {
+      tokens.push({ type: "NOT" });
+      position++;
+    } else {
+      const word = /^[^\s()"]+/.exec(input.substring(position))![0];
+      position += word.length;
+
+      const prefix = /^([a-z]+):(.*)$/i.exec(word);
+      const field = prefix && QUERY_FIELDS[prefix[1].toLowerCase()];
+      if (field) {
+        const value = prefix[2] || (input[position] === '"' ? readPhrase() : '');
+        if (!value.trim()) throw new QuerySyntaxError(`Missing value for ${prefix[1]}:`);
+        tokens.push({ type: "field", field, value: value.trim() });
+      } else if (word === "AND" || word === "OR" || word === "NOT") {
+        tokens.push({ type: word });
+      } else {
+        tokens.push({ type: "word", text: word });
+      }
+    }
+  }
+
+  return tokens;
+}
+
+// Recursive descent, loosest first: juxtaposition, then OR, then AND, then NOT
+function parse(tokens: Token[]): QueryNode {
+  let position = 0;
+  const peek = () => tokens[position]?.type;
+
+  function parseGroup(): QueryNode {
+    const nodes: QueryNode[] = [];
+    while (position < tokens.length && peek() !== ")") {
+      nodes.push(parseOr());
+    }
+    return { type: "group", nodes };
+  }
+
+  function parseOr(): QueryNode {
+    const nodes = [parseAnd()];
+    while (peek() === "OR") {
+      position++;
+      nodes.push(parseAnd());
+    }
+    return nodes.length === 1 ? nodes[0] : { type: "or", nodes };
+  }
+
+  function parseAnd(): QueryNode {
+    const nodes = [parseUnary()];
+    while (peek() === "AND") {
+      position++;
+      nodes.push(parseUnary());
+    }
+    return nodes.length === 1 ? nodes[0] : { type: "and", nodes };
+  }
+
+  function parseUnary(): QueryNode {
+    if (peek() === "NOT") {
+      position++;
+      return { type: "not", node: parseUnary() };
+    }
+    return parsePrimary();
+  }
+
+  function parsePrimary(): QueryNode {
+    const token = tokens[position++];
+    if (!token) throw new QuerySyntaxError("Query ends with an operator");
+
+    switch (token.type) {
+      case "(": {
+        const group = parseGroup();
+        if (tokens[position++]?.type !== ")") throw new QuerySyntaxError("Unclosed parenthesis");
+        return group;
+      }
+      case "phrase":
+      case "word":
+        return { type: token.type === "word" ? "term" : "phrase", text: token.text };
+      case "field":
+        return { type: "field", field: token.field, value: token.value };
+      default:
+        throw new QuerySyntaxError(`Unexpected ${token.type}`);
+    }
+  }
+
+  const root = parseGroup();
+  if (position < tokens.length) throw new QuerySyntaxError("Unmatched closing parenthesis");
+  return root;
+}
+
+function containsField(node: QueryNode): boolean {
+  switch (node.type) {
+    case "field": return true;
+    case "not": return containsField(node.node);
+    case "and": case "or": case "group": return node.nodes.some(containsField);
+    default: return false;
+  }
+}
+
+function countClauses(node: QueryNode): number {
+  switch (node.type) {
+    case "not": return countClauses(node.node);
+    case "and": case "or": case "group": return node.nodes.reduce((total, child) => total + countClauses(child), 0);
+    default: return 1;
+  }
+}
+
+// Take the field clauses out of the top level (directly or in an AND chain) and leave the text query
+function splitFieldClauses(root: QueryNode): { text: QueryNode; fields: FieldClause[] } {
+  const fields: FieldClause[] = [];
+  const takeField = (node: QueryNode): boolean => {
+    if (node.type === "field") {
+      fields.push({ field: node.field, value: node.value, negated: false });
+      return true;
+    }
+    if (node.type === "not" && node.node.type === "field") {
+      fields.push({ field: node.node.field, value: node.node.value, negated: true });
+      return true;
+    }
+    return false;
+  };
+
+  const items = root.type === "group" ? root.nodes : [root];
+  const textItems = items.flatMap((item): QueryNode[] => {
+    if (takeField(item)) return [];
+    if (item.type === "and") {
+      const rest = item.nodes.filter(node => !takeField(node));
+      return rest.length === 0 ? [] : [rest.length === 1 ? rest[0] : { type: "and", nodes: rest }];
+    }
+    return [item];
+  });
+
+  if (textItems.some(containsField)) {
+    throw new QuerySyntaxError("Field prefixes can only be combined with AND or NOT");
+  }
+  for (const clause of fields) {
+    if (clause.value.length > QUERY_LIMITS.MAX_VALUE_LENGTH) throw new QuerySyntaxError(`${clause.field}: value is too long`);
+    if (clause.field === "year" && !/^\d{4}$/.test(clause.value)) throw new QuerySyntaxError("year: must be a 4-digit year");
+    if (clause.field === "pmid" && !/^\d+$/.test(clause.value)) throw new QuerySyntaxError("pmid: must be numeric");
+  }
+
+  return { text: { type: "group", nodes: textItems }, fields };
+}
+
+// Metadata keys are written out so the expression indexes on them (e.g. the year's) can be used
+const FIELD_COLUMNS: Record<QueryField, SQL> = {
+  title: sql`${embeddings.metadata}->>'title'`,
+  journal: sql`${embeddings.metadata}->>'journal'`,
+  author: sql`${embeddings.metadata}->>'authors'`,
+  year: sql`${embeddings.metadata}->>'year'`,
+  pmid: sql`${embeddings.metadata}->>'pmid'`,
+};
+
+function fieldCondition(clauses: FieldClause[]): SQL | undefined {
+  const conditions = clauses.map(({ field, value, negated }) => {
+    const column = FIELD_COLUMNS[field];
+    const matches = field === "year" || field === "pmid"
+      ? sql`${column} = ${value}`
+      : sql`${column} ILIKE ${`%${value.replace(/[\\%_]/g, match => `\\${match}`)}%`}`;
+    return negated ? sql`(${column} IS NULL OR NOT (${matches}))` : matches;
+  });
+  return conditions.length > 0 ? and(...conditions) : undefined;
+}
+
+// Lowercase, without apostrophes, the quote and escape characters, or punctuation around a word
+function cleanText(text: string): string {
+  return text.toLowerCase()
+    .replace(/['\u2018\u2019"\\]/g, '')
+    .replace(/\s+/g, ' ')
+    .trim();
+}
+
+// Plain words go through as they are; anything with special characters is quoted, which makes
+// ParadeDB tokenize it like the indexed text instead of reading it as syntax
+function quoteTerm(text: string): string {
+  return /^[a-z0-9_]+$/.test(text) ? text : `"${text}"`;
+}
+
+function renderNode(node: QueryNode, synonymsOf: (text: string) => string[], topLevel: boolean = false): string {
+  switch (node.type) {
+    case "term":
+    case "phrase": {
+      const text = node.type === "term"
+        ? cleanText(node.text).replace(/^[^\w]+|[^\w+]+$/g, '')
+        : cleanText(node.text);
+      if (!text) return '';
+      const synonyms = synonymsOf(text).map(synonym => quoteTerm(cleanText(synonym)));
+      return synonyms.length > 0
+        ? `(${[quoteTerm(text), ...synonyms].join(' OR ')})`
+        : quoteTerm(text);
+    }
+    case "not": {
+      const inner = renderNode(node.node, () => []);
+      return inner ? `-${inner}` : '';
+    }
+    case "and":
+    case "or": {
+      const parts = node.nodes.map(child => renderNode(child, synonymsOf)).filter(Boolean);
+      return parts.length > 1 ? `(${parts.join(` ${node.type.toUpperCase()} `)})` : parts[0] || '';
+    }
+    case "group": {
+      // Stop words typed between the search terms carry no weight, as in a plain question
+      const parts = node.nodes
+        .filter(child => child.type !== "term" || isKeyTerm(cleanText(child.text)))
+        .map(child => renderNode(child, synonymsOf))
+        .filter(Boolean);
+      return topLevel || parts.length <= 1 ? parts.join(' ') : `(${parts.join(' ')})`;
+    }
+    case "field":
+      return '';
+  }
+}
+
+// The query's BM25 key terms plus the synonyms of the expanded terms it contains, with
+// multi-word synonyms quoted as phrases
+function plainBM25Query(query: string, expansions: QueryExpansion[]): string {
+  const normalizedQuery = ` ${normalizeTerm(query)} `;
+  const synonymTerms = expansions
+    .filter(expansion => normalizedQuery.includes(` ${normalizeTerm(expansion.term)} `))
+    .flatMap(expansion => expansion.synonyms)
+    .map(normalizeTerm)
+    .map(synonym => synonym.includes(' ') ? `"${synonym}"` : synonym);
+
+  return [createBM25Query(query), ...new Set(synonymTerms)].filter(Boolean).join(' ');
+}
+
+/**
+ * Build the BM25 query for a search. Synonyms are added to the terms and phrases they expand (not
+ * to excluded ones), so they keep the query's boolean structure.
+ */
+export function buildBM25Query(query: string, expansions: QueryExpansion[] = []): BM25Query {
+  if (!hasSearchSyntax(query)) {
+    return { text: plainBM25Query(query, expansions), syntax: "plain" };
+  }
+
+  try {
+    const { text, fields } = splitFieldClauses(parse(tokenize(query)));
+    if (countClauses(text) + fields.length > QUERY_LIMITS.MAX_CLAUSES) {
+      throw new QuerySyntaxError(`More than ${QUERY_LIMITS.MAX_CLAUSES} terms`);
+    }
+
+    const synonymsByTerm = new Map(expansions.map(expansion => [normalizeTerm(expansion.term), expansion.synonyms]));
+    const rendered = renderNode(text, term => synonymsByTerm.get(normalizeTerm(term)) || [], true);
+
+    return {
+      // A query of field prefixes alone searches for their values
+      text: rendered || plainBM25Query(searchTerms(query), expansions),
+      fieldCondition: fieldCondition(fields),
+      syntax: "parsed",
+    };
+  } catch (error) {
+    if (!(error instanceof QuerySyntaxError)) throw error;
+    return { text: plainBM25Query(query, expansions), syntax: "fallback", error: error.message };
+  }
+}
+
+/**
+ * The words a query searches for, without its operators, field prefixes and excluded terms, for
+ * the parts of retrieval that read text rather than BM25 syntax (synonym lookup, the embedding and
+ * the reranker)
+ */
+export function searchTerms(query: string): string {
+  if (!hasSearchSyntax(query)) return query;
+
+  const words: string[] = [];
+  const fieldValues: string[] = [];
+  const collect = (node: QueryNode) => {
+    if (node.type === "term" || node.type === "phrase") words.push(node.text);
+    if (node.type === "field") fieldValues.push(node.value);
+    if (node.type === "and" || node.type === "or" || node.type === "group") node.nodes.forEach(collect);
+  };
+
+  try {
+    collect(parse(tokenize(query)));
+  } catch {
+    return query;
+  }
+  // A query of field prefixes alone is about their values
+  return (words.length > 0 ? words : fieldValues).join(' ').trim() || query;
+}
@@ -0,0 +1,261 @@
+/**
+ * Models and limits shared by every query path (synchronous query and background jobs)
+ */
+
+// DeepInfra API configuration
+export const DEEPINFRA_API_URL = "https://api.deepinfra.com/v1/openai";
+export const DEEPINFRA_API_KEY = process.env.DEEPINFRA_API_KEY;
+export const DEEPINFRA_INFERENCE_URL = "https://api.deepinfra.com/v1/inference"; // Native API, used for rerankers
+// The embedding model is chosen per RAG (see getRagConfig)
+
+export const DEFAULT_MODEL = "deepseek-ai/DeepSeek-V3.1";
+
+export const AVAILABLE_MODELS: Record<string, string> = {
+  "Qwen/Qwen3-235B-A22B-Instruct-2507": "Qwen/Qwen3-235B-A22B-Instruct-2507",
+  "Qwen/Qwen3-Next-80B-A3B-Instruct": "Qwen/Qwen3-Next-80B-A3B-Instruct",
+  "meta-llama/Llama-4-Maverick-17B-128E-Instruct-FP8": "meta-llama/Llama-4-Maverick-17B-128E-Instruct-FP8",
+  "openai/gpt-oss-120b": "openai/gpt-oss-120b",
+  "deepseek-ai/DeepSeek-V3.1": "deepseek-ai/DeepSeek-V3.1",
+  "moonshotai/Kimi-K2-Instruct-0905": "moonshotai/Kimi-K2-Instruct-0905"
+};
+
+// Token counting per chat model. None of these models' tokenizers ships with tiktoken except
+// gpt-oss (o200k), so each other model uses the available encoding closest to its own vocabulary
+// as a stand-in, and its counts are approximations of what the model's API will count.
+export type TokenizerEncoding = "o200k_base" | "cl100k_base";
+
+export interface ModelTokenizer {
+  encoding: TokenizerEncoding;
+  contextWindow: number; // Prompt plus answer tokens the model accepts
+  approximate: boolean; // The encoding is a stand-in for the model's own tokenizer
+}
+
+export const MODEL_TOKENIZERS: Record<string, ModelTokenizer> = {
+  "Qwen/Qwen3-235B-A22B-Instruct-2507": { encoding: "cl100k_base", contextWindow: 131072, approximate: true },
+  "Qwen/Qwen3-Next-80B-A3B-Instruct": { encoding: "cl100k_base", contextWindow: 131072, approximate: true },
+  "meta-llama/Llama-4-Maverick-17B-128E-Instruct-FP8": { encoding: "o200k_base", contextWindow: 131072, approximate: true },
+  "openai/gpt-oss-120b": { encoding: "o200k_base", contextWindow: 131072, approximate: false },
+  "deepseek-ai/DeepSeek-V3.1": { encoding: "cl100k_base", contextWindow: 131072, approximate: true },
+  "moonshotai/Kimi-K2-Instruct-0905": { encoding: "o200k_base", contextWindow: 131072, approximate: true }
+};
+
+export type Complexity = "simple" | "complex" | "interpretive";
+
+export interface ComplexityConfig {
+  instruction: string;
+  maxTokens: number; // Answer length limit sent to the LLM
+  chunkCount: number; // Chunks retrieved when no token target is given
+  maxContextTokens: number; // Context budget for the retrieved chunks
+  maxSubQuestions: number; // Sub-questions a decomposed question is broken into at most; 0 = never decomposed
+}
+
+// Every per-complexity setting lives here so the query paths can't drift apart
+export const COMPLEXITY_SETTINGS: Record<Complexity, ComplexityConfig> = {
+  "simple": {
+    instruction: "Provide a clear, concise overview that captures the key points with thorough referencing. If Narrative format, aim for 1-2 paragraphs.",
+    maxTokens: 800,
+    chunkCount: 5,
+    maxContextTokens: 3000,
+    maxSubQuestions: 0
+  },
+  "complex": {
+    instruction: "Explore the topic comprehensively with detailed explanations, context, and thorough referencing. If Narrative format, aim for 2-5 paragraphs.",
+    maxTokens: 1500,
+    chunkCount: 8,
+    maxContextTokens: 5000,
+    maxSubQuestions: 3
+  },
+  "interpretive": {
+    instruction: "Provide an in-depth, interpretive analysis with extensive detail, broader implications, and thorough referencing. If Narrative format, aim for 3-10 paragraphs.",
+    maxTokens: 2500,
+    chunkCount: 15,
+    maxContextTokens: 8000,
+    maxSubQuestions: 4
+  }
+};
+
+// llm-multi-query and hyde ask the chat model for paraphrases or a hypothetical answer passage to
+// search with, alongside the query itself
+export type RetrievalStrategy = "vector" | "bm25" | "hybrid" | "rrf" | "mmr" | "multi-query" | "llm-multi-query" | "hyde";
+
+export const RETRIEVAL_STRATEGIES: RetrievalStrategy[] = ["vector", "bm25", "hybrid", "rrf", "mmr", "multi-query", "llm-multi-query", "hyde"];
+
+// Candidate lists and tuning for the strategies that re-rank or merge search results
+export const RETRIEVAL_SETTINGS = {
+  CANDIDATE_DEPTH: 50, // Candidates kept for diversification and score modifiers
+  RRF_K: 60, // Default fusion constant; larger values flatten the difference between top and lower ranks
+  MAX_RRF_K: 200,
+  RRF_DEPTH: 50, // Default number of chunks taken from each ranked list before fusion
+  MIN_RRF_DEPTH: 10,
+  MAX_RRF_DEPTH: 200,
+  MMR_LAMBDA: 0.7, // Default diversification balance: 1 = pure relevance, 0 = pure diversity
+  MAX_QUERY_VARIANTS: 3, // Extra queries searched by the multi-query strategy
+  LLM_QUERY_PARAPHRASES: 3 // Paraphrases the chat model writes for the llm-multi-query strategy
+};
+
+// Reranking of the top retrieval candidates (enabled per request with rerank: true)
+export const RERANK_SETTINGS = {
+  PROVIDER: process.env.RERANK_PROVIDER || "deepinfra", // "deepinfra", or "lexical" to run without the API
+  MODEL: process.env.RERANK_MODEL || "Qwen/Qwen3-Reranker-4B",
+  TOP_N: 30 // Candidates scored by the reranker; the best of them become the context
+};
+
+// Synonym expansion of the BM25 query from data files: data/synonyms/default.json for every RAG,
+// plus data/synonyms/<rag id>.json for a RAG's own aliases (see synonyms.ts)
+export const SYNONYM_SETTINGS = {
+  DIRECTORY: process.env.SYNONYMS_DIR || "data/synonyms",
+  MAX_SYNONYMS_PER_TERM: 4,
+  MAX_EXPANSION_TERMS: 12, // Synonyms added to one BM25 query at most
+  MAX_PHRASE_WORDS: 6 // Longest synonym looked up in the query, in words
+};
+
+// Context expansion: "neighbors" adds the chunks on either side of each context chunk, "document"
+// replaces it with every chunk of its paper (the full abstract). Both need metadata.doc_index and
+// metadata.chunk_index on the chunks.
+export type ContextExpansion = "none" | "neighbors" | "document";
+
+export const CONTEXT_EXPANSIONS: ContextExpansion[] = ["none", "neighbors", "document"];
+
+export const EXPANSION_SETTINGS = {
+  NEIGHBOR_WINDOW: 1, // Default chunks added on each side
+  MAX_NEIGHBOR_WINDOW: 3,
+  MAX_DOCUMENT_CHUNKS: 50 // Chunks of a paper the document mode joins at most
+};
+
+// Question decomposition for complex and interpretive questions: "retrieve" plans sub-questions and
+// adds context for each, "answer" also drafts an answer to each before the final answer is composed
+export type Decomposition = "none" | "retrieve" | "answer";
+
+export const DECOMPOSITIONS: Decomposition[] = ["none", "retrieve", "answer"];
+
+export const DECOMPOSITION_SETTINGS = {
+  MIN_SUB_QUESTIONS: 2, // A plan with fewer is dropped and the question answered as a whole
+  CHUNKS_PER_SUB_QUESTION: 4, // Context chunks retrieved for each sub-question
+  SUB_ANSWER_MAX_TOKENS: 500
+};
+
+// Federated search: a request can search several RAGs at once (see federation.ts)
+export const FEDERATION_SETTINGS = {
+  MAX_RAGS: 4 // RAGs one query can search
+};
+
+// Optional score modifiers applied to the candidates after retrieval and reranking (see scoring.ts)
+export interface ScoringSettings {
+  recencyHalfLife?: number; // Years after which a paper's recency factor halves; unset = no recency decay
+  recencyWeight: number; // Share of the score subject to the decay: 0 = none, 1 = all of it
+  citationWeight: number; // Largest boost from metadata.citation_count, reached at CITATION_SATURATION citations
+  publicationTypeBoosts: Record<string, number>; // Multipliers by metadata.publication_type, e.g. { "review": 1.2 }
+}
+
+export const SCORING_SETTINGS = {
+  RECENCY_WEIGHT: 0.5, // Default when a half-life is given without a weight
+  MIN_HALF_LIFE: 1,
+  MAX_HALF_LIFE: 100,
+  MAX_CITATION_WEIGHT: 1,
+  CITATION_SATURATION: 1000,
+  MAX_TYPE_BOOST: 3,
+  MAX_TYPE_BOOSTS: 20
+};
+
+// Per-RAG score modifiers, e.g. a recency decay for a fast-moving field; a request's own
+// settings override these field by field
+export const RAG_SCORING: Record<string, Partial<ScoringSettings>> = {};
+
+// How much of a conversation is carried into follow-up questions
+export const CONVERSATION_SETTINGS = {
+  MAX_PREVIOUS_TURNS: 4,
+  MAX_TURN_CHARS: 3000 // Previous answers are truncated to keep the prompt within budget
+};
+
+// Fall back to the default model for unknown model names
+export function selectModel(model?: string): string {
+  return model && AVAILABLE_MODELS[model] ? AVAILABLE_MODELS[model] : DEFAULT_MODEL;
+}
+
+// Fall back to weighted hybrid search for unknown strategies (including the old "enhanced" value)
+export function selectRetrievalStrategy(strategy?: string): RetrievalStrategy {
+  return RETRIEVAL_STRATEGIES.includes(strategy as RetrievalStrategy) ? strategy as RetrievalStrategy : "hybrid";
+}
+
+export interface RrfSettings {
+  k: number;
+  depth: number;
+}
+
+// Parse and clamp the request's fusion settings, falling back to the defaults
+export function selectRrfSettings(k?: unknown, depth?: unknown): RrfSettings {
+  const parsedK = parseInt(String(k));
+  const parsedDepth = parseInt(String(depth));
+  return {
+    k: Math.min(Math.max(Number.isNaN(parsedK) ? RETRIEVAL_SETTINGS.RRF_K : parsedK, 1), RETRIEVAL_SETTINGS.MAX_RRF_K),
+    depth: Math.min(Math.max(Number.isNaN(parsedDepth) ? RETRIEVAL_SETTINGS.RRF_DEPTH : parsedDepth, RETRIEVAL_SETTINGS.MIN_RRF_DEPTH), RETRIEVAL_SETTINGS.MAX_RRF_DEPTH),
+  };
+}
+
+// The request's MMR lambda clamped to 0-1, or undefined when it didn't ask for diversification
+export function selectMmrLambda(lambda?: unknown): number | undefined {
+  const parsed = parseFloat(String(lambda));
+  return Number.isNaN(parsed) ? undefined : Math.min(Math.max(parsed, 0), 1);
+}
+
+// The request's score modifiers, clamped to their ranges and without the fields it didn't send
+export function selectScoring(scoring?: unknown): Partial<ScoringSettings> | undefined {
+  if (!scoring || typeof scoring !== "object" || Array.isArray(scoring)) return undefined;
+  const raw = scoring as Record<string, unknown>;
+  const clamp = (value: unknown, min: number, max: number) => {
+    const parsed = parseFloat(String(value));
+    return Number.isNaN(parsed) ? undefined : Math.min(Math.max(parsed, min), max);
+  };
+
+  const selected: Partial<ScoringSettings> = {};
+  const halfLife = clamp(raw.recencyHalfLife, SCORING_SETTINGS.MIN_HALF_LIFE, SCORING_SETTINGS.MAX_HALF_LIFE);
+  const recencyWeight = clamp(raw.recencyWeight, 0, 1);
+  const citationWeight = clamp(raw.citationWeight, 0, SCORING_SETTINGS.MAX_CITATION_WEIGHT);
+  if (halfLife !== undefined) selected.recencyHalfLife = halfLife;
+  if (recencyWeight !== undefined) selected.recencyWeight = recencyWeight;
+  if (citationWeight !== undefined) selected.citationWeight = citationWeight;
+
+  if (raw.publicationTypeBoosts && typeof raw.publicationTypeBoosts === "object" && !Array.isArray(raw.publicationTypeBoosts)) {
+    const boosts = Object.entries(raw.publicationTypeBoosts as Record<string, unknown>)
+      .slice(0, SCORING_SETTINGS.MAX_TYPE_BOOSTS)
+      .map(([type, boost]) => [type.trim().toLowerCase().substring(0, 100), clamp(boost, 0, SCORING_SETTINGS.MAX_TYPE_BOOST)] as const)
+      .filter((entry): entry is readonly [string, number] => Boolean(entry[0]) && entry[1] !== undefined);
+    selected.publicationTypeBoosts = Object.fromEntries(boosts);
+  }
+
+  return Object.keys(selected).length > 0 ? selected : undefined;
+}
+
+// Fall back to no expansion for unknown modes
+export function selectContextExpansion(expansion?: string): ContextExpansion {
+  return CONTEXT_EXPANSIONS.includes(expansion as ContextExpansion) ? expansion as ContextExpansion : "none";
+}
+
+// The RAGs a request searches: its ragId and any ragIds, without duplicates, ragId first
+export function selectRagIds(ragId?: unknown, ragIds?: unknown): string[] {
+  const ids = [ragId, ...(Array.isArray(ragIds) ? ragIds : [])]
+    .filter((id): id is string => typeof id === 'string' && id.trim().length > 0)
+    .map(id => id.trim());
+  return [...new Set(ids)];
+}
+
+// Fall back to no decomposition for unknown modes
+export function selectDecomposition(decomposition?: string): Decomposition {
+  return DECOMPOSITIONS.includes(decomposition as Decomposition) ? decomposition as Decomposition : "none";
+}
+
+// Parse and clamp the neighbour window, falling back to the default
+export function selectNeighborWindow(window?: unknown): number {
+  const parsed = parseInt(String(window));
+  return Math.min(Math.max(Number.isNaN(parsed) ? EXPANSION_SETTINGS.NEIGHBOR_WINDOW : parsed, 1), EXPANSION_SETTINGS.MAX_NEIGHBOR_WINDOW);
+}
+
+// Fall back to "complex" for unknown complexity levels
+export function selectComplexity(complexity?: string): Complexity {
+  // An own-key check, so prototype keys such as "constructor" aren't taken for a complexity
+  return complexity && Object.prototype.hasOwnProperty.call(COMPLEXITY_SETTINGS, complexity) ? complexity as Complexity : "complex";
+}
+
+// Per-RAG pipeline definitions, as stage names in order (see stages.ts); RAGs not listed
+// here use DEFAULT_PIPELINE, and a request can still send its own definition
+export const RAG_PIPELINES: Record<string, string[]> = {};
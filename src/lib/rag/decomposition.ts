@@ -0,0 +1,59 @@
+import { countChunkTokens, type RetrievedChunk } from "./retrieval";
+import { chunkKey } from "./fusion";
+
+/**
+ * Question decomposition: a complex question is planned as sub-questions, each sub-question gets its
+ * own retrieval (and, if requested, a drafted answer), and the final answer is composed from the
+ * question's context with the sub-questions' merged into it.
+ */
+
+export interface SubQuestion {
+  question: string;
+  chunks: { id: number; ragId?: string }[]; // Chunks retrieved for the sub-question, best first
+  answer?: string; // Drafted from the sub-question's sources with the "answer" decomposition
+}
+
+export interface QueryPlan {
+  subQuestions: SubQuestion[];
+}
+
+/**
+ * Merge the sub-questions' chunks into the context, taking the chunks of each rank from every list
+ * in turn (the question's own context first) so each sub-question gets a share of the token budget.
+ * Chunks that would take the context over the budget are left out.
+ */
+export function mergeSubQuestionChunks(
+  contextChunks: RetrievedChunk[],
+  subQuestionChunks: RetrievedChunk[][],
+  tokenBudget: number,
+  model?: string
+): RetrievedChunk[] {
+  const lists = [contextChunks, ...subQuestionChunks];
+  const longest = Math.max(...lists.map(list => list.length));
+  const merged: RetrievedChunk[] = [];
+  const seen = new Set<string>();
+  let totalTokens = 0;
+
+  for (let rank = 0; rank < longest; rank++) {
+    for (const list of lists) {
+      const chunk = list[rank];
+      if (!chunk || seen.has(chunkKey(chunk))) continue;
+      seen.add(chunkKey(chunk));
+
+      const chunkTokens = countChunkTokens(chunk, model);
+      if (totalTokens + chunkTokens > tokenBudget && merged.length > 0) continue;
+      merged.push(chunk);
+      totalTokens += chunkTokens;
+    }
+  }
+
+  return merged;
+}
+
+// The context chunks a sub-question retrieved, including passages that expansion merged them into
+export function subQuestionContextChunks(subQuestion: SubQuestion, contextChunks: RetrievedChunk[]): RetrievedChunk[] {
+  const keys = new Set(subQuestion.chunks.map(chunkKey));
+  return contextChunks.filter(chunk =>
+    keys.has(chunkKey(chunk)) || chunk.expandedWith?.some(id => keys.has(chunkKey({ id, ragId: chunk.ragId })))
+  );
+}
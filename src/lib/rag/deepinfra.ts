@@ -0,0 +1,528 @@
+import { DEEPINFRA_API_URL, DEEPINFRA_INFERENCE_URL, DEEPINFRA_API_KEY, DEFAULT_MODEL, COMPLEXITY_SETTINGS, CONVERSATION_SETTINGS, DECOMPOSITION_SETTINGS, selectComplexity } from "./config";
+import { generateAnswerPrompt, generateSubAnswerPrompt } from "./prompts";
+import type { QueryPlan } from "./decomposition";
+import { parseMetadata } from "./text";
+import { DeepInfraApiError } from "./retry";
+import { countTokens, modelTokenizer, parseUsage, type TokenUsage } from "./tokens";
+
+/**
+ * DeepInfra calls: query embeddings, reranking, answer generation (optionally streamed), verification,
+ * follow-up condensation, query generation for the LLM retrieval strategies, and question planning
+ * and sub-answers for decomposition. Every call takes an optional AbortSignal so a cancelled job can
+ * stop its in-flight requests.
+ */
+
+export interface ConversationTurn {
+  query: string;
+  response: string;
+}
+
+// Abort a request's own controller (used for its timeout) when the caller's signal aborts
+function linkAbortSignal(controller: AbortController, signal?: AbortSignal) {
+  if (!signal) return;
+  if (signal.aborted) {
+    controller.abort();
+  } else {
+    signal.addEventListener("abort", () => controller.abort(), { once: true });
+  }
+}
+
+// The answer's max_tokens: the requested limit, or less when the prompt leaves less of the model's
+// context window
+function answerTokenLimit(messages: { content: string }[], model: string, maxTokens: number): number {
+  const promptTokens = messages.reduce((total, message) => total + countTokens(message.content, model) + 4, 0); // ~4 tokens of chat formatting per message
+  return Math.max(Math.min(maxTokens, modelTokenizer(model).contextWindow - promptTokens), 1);
+}
+
+function truncateTurn(text: string): string {
+  return text.length > CONVERSATION_SETTINGS.MAX_TURN_CHARS
+    ? text.substring(0, CONVERSATION_SETTINGS.MAX_TURN_CHARS) + '...'
+    : text;
+}
+
+export async function getEmbedding(text: string, model: string, signal?: AbortSignal): Promise<number[]> {
+  const controller = new AbortController();
+  const timeoutId = setTimeout(() => controller.abort(), 600000); // 10 minutes timeout for background function
+  linkAbortSignal(controller, signal);
+
+  try {
+    const response = await fetch(`${DEEPINFRA_API_URL}/embeddings`, {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+        "Authorization": `Bearer ${DEEPINFRA_API_KEY}`,
+      },
+      body: JSON.stringify({
+        model: model,
+        input: text,
+      }),
+      signal: controller.signal,
+      // @ts-ignore - undici specific options for Node.js fetch
+      headersTimeout: 600000, // 10 minutes in milliseconds
+      bodyTimeout: 600000, // 10 minutes in milliseconds
+    });
+
+    clearTimeout(timeoutId);
+
+    if (!response.ok) {
+      throw new DeepInfraApiError(response.status, response.statusText);
+    }
+
+    const data = await response.json();
+    return data.data[0].embedding;
+  } catch (error) {
+    clearTimeout(timeoutId);
+    throw error;
+  }
+}
+
+// Relevance of each document to the query from a hosted reranker model, in document order
+export async function rerankDocuments(query: string, documents: string[], model: string, signal?: AbortSignal): Promise<number[]> {
+  const controller = new AbortController();
+  const timeoutId = setTimeout(() => controller.abort(), 60000); // 1 minute, reranking a few dozen chunks is quick
+  linkAbortSignal(controller, signal);
+
+  try {
+    const response = await fetch(`${DEEPINFRA_INFERENCE_URL}/${model}`, {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+        "Authorization": `Bearer ${DEEPINFRA_API_KEY}`,
+      },
+      body: JSON.stringify({
+        queries: [query],
+        documents,
+      }),
+      signal: controller.signal,
+    });
+
+    clearTimeout(timeoutId);
+
+    if (!response.ok) {
+      throw new DeepInfraApiError(response.status, response.statusText);
+    }
+
+    const data = await response.json();
+    if (!Array.isArray(data.scores) || data.scores.length !== documents.length) {
+      throw new Error("DeepInfra API error: reranker returned an unexpected number of scores");
+    }
+    return data.scores;
+  } catch (error) {
+    clearTimeout(timeoutId);
+    throw error;
+  }
+}
+
+// Rewrite a follow-up question into a standalone query suitable for retrieval
+export async function condenseFollowUpQuery(
+  previousTurns: ConversationTurn[],
+  followUp: string,
+  model: string = DEFAULT_MODEL,
+  signal?: AbortSignal
+): Promise<string> {
+  const transcript = previousTurns
+    .map(turn => `User: ${turn.query}\nAssistant: ${turn.response.substring(0, 500)}`)
+    .join('\n\n');
+
+  const condensePrompt = `Given the following conversation and a follow-up question, rewrite the follow-up question as a standalone question that can be understood without the conversation.
+
+CONVERSATION:
+${transcript}
+
+FOLLOW-UP QUESTION: ${followUp}
+
+INSTRUCTIONS:
+- Resolve pronouns and references ("it", "this gene", "in mice") using the conversation
+- Keep gene, protein, species and disease names exactly as written
+- If the follow-up is already standalone, return it unchanged
+- Return only the rewritten question, with no explanation`;
+
+  const controller = new AbortController();
+  const timeoutId = setTimeout(() => controller.abort(), 60000); // 1 minute, this is a short completion
+  linkAbortSignal(controller, signal);
+
+  try {
+    const response = await fetch(`${DEEPINFRA_API_URL}/chat/completions`, {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+        "Authorization": `Bearer ${DEEPINFRA_API_KEY}`,
+      },
+      body: JSON.stringify({
+        model: model,
+        messages: [{ role: "user", content: condensePrompt }],
+        max_tokens: 200,
+        temperature: 0.1,
+      }),
+      signal: controller.signal,
+    });
+
+    clearTimeout(timeoutId);
+
+    if (!response.ok) {
+      return followUp; // Fall back to the raw follow-up
+    }
+
+    const data = await response.json();
+    const condensed = (data.choices[0].message.content || '').trim().replace(/^["']|["']$/g, '');
+    return condensed.length >= 3 ? condensed.substring(0, 1000) : followUp;
+  } catch (error) {
+    clearTimeout(timeoutId);
+    console.error("Query condensation error:", error);
+    return followUp;
+  }
+}
+
+// A short single-prompt completion (query generation, planning, sub-answers), or undefined if the
+// call fails so the query can go ahead without it
+async function completeShortPrompt(
+  prompt: string,
+  model: string,
+  maxTokens: number,
+  temperature: number,
+  signal?: AbortSignal
+): Promise<{ content: string; usage?: TokenUsage } | undefined> {
+  const controller = new AbortController();
+  const timeoutId = setTimeout(() => controller.abort(), 60000); // 1 minute, these are short completions
+  linkAbortSignal(controller, signal);
+
+  try {
+    const response = await fetch(`${DEEPINFRA_API_URL}/chat/completions`, {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+        "Authorization": `Bearer ${DEEPINFRA_API_KEY}`,
+      },
+      body: JSON.stringify({
+        model: model,
+        messages: [{ role: "user", content: prompt }],
+        max_tokens: maxTokens,
+        temperature,
+      }),
+      signal: controller.signal,
+    });
+
+    clearTimeout(timeoutId);
+
+    if (!response.ok) {
+      console.error(`[${new Date().toISOString()}] Short completion failed: ${response.status} ${response.statusText}`);
+      return undefined;
+    }
+
+    const data = await response.json();
+    return { content: (data.choices[0].message.content || '').trim(), usage: parseUsage(data.usage) };
+  } catch (error) {
+    clearTimeout(timeoutId);
+    console.error("Short completion error:", error);
+    return undefined;
+  }
+}
+
+/**
+ * Ask the chat model for paraphrases of the query to search alongside it (the llm-multi-query strategy).
+ * Returns no queries if the call fails.
+ */
+export async function generateQueryParaphrases(
+  query: string,
+  count: number,
+  model: string = DEFAULT_MODEL,
+  signal?: AbortSignal
+): Promise<{ queries: string[]; usage?: TokenUsage }> {
+  const paraphrasePrompt = `Write ${count} different search queries for finding scientific abstracts that answer the question below.
+
+QUESTION: ${query}
+
+INSTRUCTIONS:
+- Each query should phrase the question differently: other terminology, a narrower or broader angle, or one part of a compound question
+- Keep gene, protein, species and disease names exactly as written
+- Return one query per line, with no numbering and no explanation`;
+
+  const completion = await completeShortPrompt(paraphrasePrompt, model, 300, 0.5, signal);
+  if (!completion) return { queries: [] };
+
+  const seen = new Set([query.trim().toLowerCase()]);
+  const queries = completion.content
+    .split('\n')
+    .map(line => line.replace(/^\s*(?:[-*\u2022]|\d+[.)])\s*/, '').trim().replace(/^["']|["']$/g, ''))
+    .filter(line => {
+      const key = line.toLowerCase();
+      if (line.length < 3 || seen.has(key)) return false;
+      seen.add(key);
+      return true;
+    })
+    .map(line => line.substring(0, 500))
+    .slice(0, count);
+
+  return { queries, usage: completion.usage };
+}
+
+/**
+ * Ask the chat model for a passage that could answer the query, written like an abstract, to be
+ * embedded in place of the question (the hyde strategy). Returns no passage if the call fails.
+ */
+export async function generateHypotheticalPassage(
+  query: string,
+  ragName: string,
+  model: string = DEFAULT_MODEL,
+  signal?: AbortSignal
+): Promise<{ passage?: string; usage?: TokenUsage }> {
+  const passagePrompt = `Write a short passage, in the style of a scientific abstract from the ${ragName} literature, that answers the question below.
+
+QUESTION: ${query}
+
+INSTRUCTIONS:
+- Write 3-5 sentences of plausible findings, as an abstract would state them
+- Use the terminology such an abstract would use, keeping gene, protein, species and disease names exactly as written
+- Return only the passage, with no title, citations or explanation`;
+
+  const completion = await completeShortPrompt(passagePrompt, model, 400, 0.7, signal);
+  return completion && completion.content.length >= 20
+    ? { passage: completion.content.substring(0, 3000), usage: completion.usage }
+    : { usage: completion?.usage };
+}
+
+/**
+ * Ask the chat model to break the question into at most maxSubQuestions sub-questions that can each be
+ * answered from the literature. A question it doesn't split, or a failed call, gives no sub-questions.
+ */
+export async function planSubQuestions(
+  query: string,
+  maxSubQuestions: number,
+  model: string = DEFAULT_MODEL,
+  signal?: AbortSignal
+): Promise<{ subQuestions: string[]; usage?: TokenUsage }> {
+  const planPrompt = `Break the research question below into the sub-questions that need answering from the literature before the question as a whole can be answered.
+
+QUESTION: ${query}
+
+INSTRUCTIONS:
+- Write at most ${maxSubQuestions} sub-questions, each answerable on its own, e.g. one per system, condition or entity being compared
+- Keep gene, protein, species and disease names exactly as written
+- If the question asks about a single thing, return it unchanged as the only line
+- Return one sub-question per line, with no numbering and no explanation`;
+
+  const completion = await completeShortPrompt(planPrompt, model, 300, 0.2, signal);
+  if (!completion) return { subQuestions: [] };
+
+  const subQuestions = completion.content
+    .split('\n')
+    .map(line => line.replace(/^\s*(?:[-*\u2022]|\d+[.)])\s*/, '').trim())
+    .filter(line => line.length >= 3)
+    .map(line => line.substring(0, 500))
+    .slice(0, maxSubQuestions);
+
+  return { subQuestions, usage: completion.usage };
+}
+
+// Draft the answer to one sub-question of a decomposed question from its own sources;
+// undefined if the call fails, and the final answer is composed without it
+export async function answerSubQuestion(
+  subQuestion: string,
+  query: string,
+  context: string,
+  ragName: string,
+  model: string = DEFAULT_MODEL,
+  signal?: AbortSignal
+): Promise<{ answer?: string; usage?: TokenUsage }> {
+  const prompt = generateSubAnswerPrompt(subQuestion, query, context, ragName);
+  const completion = await completeShortPrompt(prompt, model, DECOMPOSITION_SETTINGS.SUB_ANSWER_MAX_TOKENS, 0.3, signal);
+  return { answer: completion?.content || undefined, usage: completion?.usage };
+}
+
+// Read an OpenAI-compatible SSE completion stream, passing each content delta to onToken.
+// The usage arrives in the last frame when the request asked for it.
+async function readCompletionStream(response: Response, onToken: (delta: string) => void): Promise<{ content: string; usage?: TokenUsage }> {
+  if (!response.body) {
+    throw new Error("DeepInfra API error: empty response stream");
+  }
+
+  const reader = response.body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = '';
+  let content = '';
+  let usage: TokenUsage | undefined;
+
+  while (true) {
+    const { done, value } = await reader.read();
+    if (done) break;
+
+    buffer += decoder.decode(value, { stream: true });
+    const lines = buffer.split('\n');
+    buffer = lines.pop() || '';
+
+    for (const line of lines) {
+      const trimmed = line.trim();
+      if (!trimmed.startsWith('data:')) continue;
+
+      const data = trimmed.substring(5).trim();
+      if (data === '[DONE]') return { content, usage };
+
+      try {
+        const frame = JSON.parse(data);
+        const delta = frame.choices?.[0]?.delta?.content;
+        if (delta) {
+          content += delta;
+          onToken(delta);
+        }
+        usage = parseUsage(frame.usage) ?? usage;
+      } catch {
+        // Skip malformed frames rather than failing the whole answer
+      }
+    }
+  }
+
+  return { content, usage };
+}
+
+/**
+ * Generate the answer from the retrieved context. Earlier conversation turns are sent as chat history;
+ * with onToken the completion is streamed and each piece of text is passed on as it arrives.
+ * Returns the answer with the token usage the API reported.
+ */
+export async function generateResponse(
+  query: string,
+  context: string,
+  ragName: string,
+  model: string = DEFAULT_MODEL,
+  complexity: string = "complex",
+  outputStyle: string = "narrative",
+  previousTurns: ConversationTurn[] = [],
+  plan?: QueryPlan,
+  onToken?: (delta: string) => void,
+  signal?: AbortSignal
+): Promise<{ content: string; usage?: TokenUsage }> {
+  const complexityConfig = COMPLEXITY_SETTINGS[selectComplexity(complexity)];
+  const prompt = generateAnswerPrompt(query, context, ragName, complexityConfig, outputStyle, plan);
+  const messages = [
+    // Earlier turns of the conversation, so follow-ups are answered in context
+    ...previousTurns.flatMap(turn => [
+      { role: "user", content: turn.query },
+      { role: "assistant", content: truncateTurn(turn.response) },
+    ]),
+    {
+      role: "user",
+      content: prompt,
+    },
+  ];
+
+  const controller = new AbortController();
+  const timeoutId = setTimeout(() => controller.abort(), 600000); // 10 minutes timeout for background function
+  linkAbortSignal(controller, signal);
+
+  try {
+    const response = await fetch(`${DEEPINFRA_API_URL}/chat/completions`, {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+        "Authorization": `Bearer ${DEEPINFRA_API_KEY}`,
+      },
+      body: JSON.stringify({
+        model: model,
+        messages,
+        max_tokens: answerTokenLimit(messages, model, complexityConfig.maxTokens),
+        temperature: 0.7,
+        stream: Boolean(onToken),
+        ...(onToken && { stream_options: { include_usage: true } }),
+      }),
+      signal: controller.signal,
+      // @ts-ignore - undici specific options for Node.js fetch
+      headersTimeout: 600000, // 10 minutes in milliseconds
+      bodyTimeout: 600000, // 10 minutes in milliseconds
+    });
+
+    if (!response.ok) {
+      clearTimeout(timeoutId);
+      throw new DeepInfraApiError(response.status, response.statusText);
+    }
+
+    // Streamed responses keep the timeout running until the last token arrives
+    if (onToken) {
+      const streamed = await readCompletionStream(response, onToken);
+      clearTimeout(timeoutId);
+      return streamed;
+    }
+
+    clearTimeout(timeoutId);
+
+    const data = await response.json();
+    return { content: data.choices[0].message.content, usage: parseUsage(data.usage) };
+  } catch (error) {
+    clearTimeout(timeoutId);
+    throw error;
+  }
+}
+
+/**
+ * Check the answer's claims against the sources, marking unsupported ones with [UNVERIFIED].
+ * Falls back to the unverified answer with 50% confidence if verification fails.
+ */
+export async function verifyResponse(
+  response: string,
+  sources: { content: string; metadata: unknown }[],
+  model: string = DEFAULT_MODEL,
+  signal?: AbortSignal
+): Promise<{ verifiedResponse: string, confidence: number, usage?: TokenUsage }> {
+  const verificationPrompt = `You are a scientific fact-checker. Analyze the following response and verify if each claim is supported by the provided sources.
+
+RESPONSE TO VERIFY:
+${response}
+
+SOURCES:
+${sources.map((source, i) => `Source ${i + 1} (PMID: ${parseMetadata(source.metadata).pmid}): ${source.content}`).join('\n\n')}
+
+INSTRUCTIONS:
+1. Identify each factual claim in the response
+2. Check if each claim is supported by the sources
+3. Mark unsupported claims with [UNVERIFIED]
+4. Provide an overall confidence score (0-100%)
+5. Return the response with verification markers and confidence score
+
+FORMAT:
+VERIFIED_RESPONSE: [Response with [UNVERIFIED] markers for unsupported claims]
+CONFIDENCE: [0-100 percentage]`;
+
+  const controller = new AbortController();
+  const timeoutId = setTimeout(() => controller.abort(), 600000); // 10 minutes for verification
+  linkAbortSignal(controller, signal);
+
+  try {
+    const verificationResponse = await fetch(`${DEEPINFRA_API_URL}/chat/completions`, {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+        "Authorization": `Bearer ${DEEPINFRA_API_KEY}`,
+      },
+      body: JSON.stringify({
+        model: model,
+        messages: [{ role: "user", content: verificationPrompt }],
+        max_tokens: answerTokenLimit([{ content: verificationPrompt }], model, 800),
+        temperature: 0.1, // Low temperature for consistent verification
+      }),
+      signal: controller.signal,
+      // @ts-ignore - undici specific options for Node.js fetch
+      headersTimeout: 600000, // 10 minutes in milliseconds
+      bodyTimeout: 600000, // 10 minutes in milliseconds
+    });
+
+    clearTimeout(timeoutId);
+
+    if (!verificationResponse.ok) {
+      return { verifiedResponse: response, confidence: 50 };
+    }
+
+    const verificationData = await verificationResponse.json();
+    const verificationResult = verificationData.choices[0].message.content;
+
+    const verifiedMatch = verificationResult.match(/VERIFIED_RESPONSE:\s*([\s\S]*?)CONFIDENCE:/);
+    const confidenceMatch = verificationResult.match(/CONFIDENCE:\s*(\d+)/);
+
+    const verifiedResponse = verifiedMatch ? verifiedMatch[1].trim() : response;
+    const confidence = confidenceMatch ? parseInt(confidenceMatch[1]) : 50;
+
+    return { verifiedResponse, confidence, usage: parseUsage(verificationData.usage) };
+  } catch (error) {
+    clearTimeout(timeoutId);
+    console.error("Verification error:", error);
+    return { verifiedResponse: response, confidence: 50 };
+  }
+}
@@ -0,0 +1,139 @@
+import { sql, or, inArray } from "drizzle-orm";
+import { embeddings } from "../db/separate-schema";
+import { EXPANSION_SETTINGS, type ContextExpansion } from "./config";
+import { parseMetadata } from "./text";
+import { countChunkTokens, type RagDb, type RetrievedChunk } from "./retrieval";
+import { chunkKey } from "./fusion";
+
+/**
+ * Context expansion: each context chunk becomes a passage of its paper, either the chunk with its
+ * neighbours or the whole paper, found through metadata.doc_index and metadata.chunk_index in the
+ * chunk's own RAG. Chunks without those fields are used as they are.
+ */
+
+interface ChunkPosition {
+  docIndex: string;
+  chunkIndex: number;
+}
+
+interface DocumentChunk {
+  id: number;
+  content: string;
+}
+
+function chunkPosition(metadata: unknown): ChunkPosition | undefined {
+  const { doc_index, chunk_index } = parseMetadata(metadata);
+  const chunkIndex = parseInt(chunk_index);
+  if (doc_index === undefined || doc_index === null || Number.isNaN(chunkIndex)) return undefined;
+  return { docIndex: String(doc_index), chunkIndex };
+}
+
+// The chunks around the context chunks (or all chunks of their papers), by paper and chunk index
+async function loadDocumentChunks(
+  db: RagDb,
+  positions: ChunkPosition[],
+  expansion: Exclude<ContextExpansion, "none">,
+  window: number
+): Promise<Map<string, Map<number, DocumentChunk>>> {
+  const docIndex = sql<string>`${embeddings.metadata}->>'doc_index'`;
+  const chunkIndex = sql<string>`${embeddings.metadata}->>'chunk_index'`;
+
+  // Chunk indexes are matched as text so rows with malformed indexes can't break a cast
+  const condition = expansion === "document"
+    ? inArray(docIndex, [...new Set(positions.map(position => position.docIndex))])
+    : or(...positions.map(position => {
+        const indexes = Array.from({ length: 2 * window + 1 }, (_, offset) => String(position.chunkIndex - window + offset));
+        return sql`(${docIndex} = ${position.docIndex} AND ${inArray(chunkIndex, indexes)})`;
+      }));
+
+  const rows = await db
+    .select({ id: embeddings.id, content: embeddings.content, metadata: embeddings.metadata })
+    .from(embeddings)
+    .where(condition);
+
+  const documents = new Map<string, Map<number, DocumentChunk>>();
+  for (const row of rows) {
+    const position = chunkPosition(row.metadata);
+    if (!position) continue;
+    if (!documents.has(position.docIndex)) documents.set(position.docIndex, new Map());
+    documents.get(position.docIndex)!.set(position.chunkIndex, { id: row.id, content: row.content });
+  }
+  return documents;
+}
+
+/**
+ * Replace each context chunk with its passage: the contiguous run of its paper's chunks within the
+ * window (the whole paper for "document"), stopping at chunks an earlier passage already includes.
+ * A context chunk already included in an earlier passage is dropped. Passages that would take the
+ * context over tokenBudget fall back to the chunk alone. Each chunk is expanded from the database of
+ * the RAG it was found in; untagged chunks from the first one.
+ */
+export async function expandContextChunks(
+  rags: { id: string; db: RagDb }[],
+  chunks: RetrievedChunk[],
+  expansion: Exclude<ContextExpansion, "none">,
+  window: number,
+  tokenBudget: number,
+  model?: string
+): Promise<RetrievedChunk[]> {
+  const positions = chunks.map(chunk => chunkPosition(chunk.metadata));
+  if (positions.every(position => position === undefined)) return chunks;
+
+  const ragIdOf = (chunk: RetrievedChunk) => chunk.ragId ?? rags[0].id;
+  const documentsByRag = new Map(await Promise.all(rags.map(async rag => {
+    const known = positions.filter((position, index): position is ChunkPosition =>
+      position !== undefined && ragIdOf(chunks[index]) === rag.id
+    );
+    const documents = known.length > 0
+      ? await loadDocumentChunks(rag.db, known, expansion, window)
+      : new Map<string, Map<number, DocumentChunk>>();
+    return [rag.id, documents] as const;
+  })));
+  const reach = expansion === "document" ? EXPANSION_SETTINGS.MAX_DOCUMENT_CHUNKS : window;
+
+  const included = new Set<string>();
+  const expanded: RetrievedChunk[] = [];
+  let totalTokens = 0;
+
+  chunks.forEach((chunk, index) => {
+    const ragId = ragIdOf(chunk);
+    if (included.has(chunkKey({ id: chunk.id, ragId }))) return;
+
+    const position = positions[index];
+    const documentChunks = position && documentsByRag.get(ragId)?.get(position.docIndex);
+    const available = (chunkIndex: number) => {
+      const documentChunk = documentChunks?.get(chunkIndex);
+      return documentChunk && !included.has(chunkKey({ id: documentChunk.id, ragId })) ? documentChunk : undefined;
+    };
+
+    const before: DocumentChunk[] = [];
+    const after: DocumentChunk[] = [];
+    if (position) {
+      for (let offset = 1; offset <= reach && available(position.chunkIndex - offset); offset++) {
+        before.unshift(available(position.chunkIndex - offset)!);
+      }
+      for (let offset = 1; offset <= reach && available(position.chunkIndex + offset); offset++) {
+        after.push(available(position.chunkIndex + offset)!);
+      }
+    }
+
+    const neighbours = [...before, ...after];
+    const passage: RetrievedChunk = neighbours.length > 0
+      ? {
+          ...chunk,
+          content: [...before, chunk, ...after].map(part => part.content.trim()).join(' '),
+          expandedWith: neighbours.map(neighbour => neighbour.id),
+        }
+      : chunk;
+
+    const passageTokens = countChunkTokens(passage, model);
+    const selected = passage !== chunk && totalTokens + passageTokens > tokenBudget ? chunk : passage;
+
+    totalTokens += selected === passage ? passageTokens : countChunkTokens(chunk, model);
+    included.add(chunkKey({ id: chunk.id, ragId }));
+    selected.expandedWith?.forEach(id => included.add(chunkKey({ id, ragId })));
+    expanded.push(selected);
+  });
+
+  return expanded;
+}
@@ -0,0 +1,93 @@
+import { createRagDbConnection, getRagConfig } from "../db/separate-db";
+import { getEmbedding } from "./deepinfra";
+import { withRetry } from "./retry";
+import { loadChunkEmbeddings, type RagDb } from "./retrieval";
+import { chunkKey } from "./fusion";
+
+/**
+ * Federated search over several RAG databases in one query. Each RAG is searched with a query
+ * embedding from its own embedding model (computed once per model), and the per-RAG results are
+ * tagged with their RAG and merged into one ranking.
+ */
+
+export interface RagTarget {
+  id: string;
+  name: string;
+  queryModel: string;
+  db: RagDb;
+}
+
+// Connect to each RAG; throws for an unknown RAG id
+export function connectRags(ragIds: string[]): RagTarget[] {
+  return ragIds.map(ragId => {
+    const { name, queryModel } = getRagConfig(ragId);
+    return { id: ragId, name, queryModel, db: createRagDbConnection(ragId) };
+  });
+}
+
+// The RAGs' names as the prompts refer to them, e.g. "Wnts and Ovarian Cancer"
+export function ragNames(rags: RagTarget[]): string {
+  const names = rags.map(rag => rag.name);
+  return names.length > 1 ? `${names.slice(0, -1).join(', ')} and ${names[names.length - 1]}` : names[0];
+}
+
+// Embed the text once per distinct embedding model of the RAGs, by model
+export async function embedForRags(text: string, rags: RagTarget[], signal?: AbortSignal): Promise<Record<string, number[]>> {
+  const models = [...new Set(rags.map(rag => rag.queryModel))];
+  const embeddings = await Promise.all(models.map(model =>
+    withRetry("Embedding request", () => getEmbedding(text, model, signal))
+  ));
+  return Object.fromEntries(models.map((model, index) => [model, embeddings[index]]));
+}
+
+/**
+ * Merge the RAGs' ranked lists into one ranking. Each RAG's scores are scaled so its best chunk
+ * scores as high as the best chunk overall: scores from different embedding models and corpora
+ * aren't on the same scale, so no RAG's results are crowded out by its scale alone, and the order
+ * within a RAG is kept. A chunk with the same text as a higher-ranked one (the same paper imported
+ * into two RAGs) is dropped. A single list is returned as it is.
+ */
+function mergeRagResults<T extends { content: string; similarity: number }>(lists: T[][]): T[] {
+  if (lists.length === 1) return lists[0];
+
+  const topScores = lists.map(list => Math.max(0, ...list.map(chunk => chunk.similarity)));
+  const topOverall = Math.max(...topScores);
+
+  const seen = new Set<string>();
+  return lists
+    .flatMap((list, index) => list.map(chunk => ({
+      ...chunk,
+      similarity: topScores[index] > 0 ? chunk.similarity * topOverall / topScores[index] : chunk.similarity,
+    })))
+    .sort((a, b) => b.similarity - a.similarity)
+    .filter(chunk => {
+      const text = chunk.content.trim();
+      if (seen.has(text)) return false;
+      seen.add(text);
+      return true;
+    });
+}
+
+// Run a search against every RAG in parallel, tag each result with its RAG and merge the rankings
+export async function searchRags<T extends { content: string; similarity: number }>(
+  rags: RagTarget[],
+  search: (rag: RagTarget) => Promise<T[]>
+): Promise<(T & { ragId: string })[]> {
+  const lists = await Promise.all(rags.map(async rag =>
+    (await search(rag)).map(chunk => ({ ...chunk, ragId: rag.id }))
+  ));
+  return mergeRagResults(lists);
+}
+
+// The stored vectors of chunks from any of the RAGs, by chunkKey
+export async function loadRagChunkEmbeddings(
+  rags: RagTarget[],
+  chunks: { id: number; ragId?: string }[]
+): Promise<Map<string, number[]>> {
+  const perRag = await Promise.all(rags.map(async rag => {
+    const ids = chunks.filter(chunk => chunk.ragId === rag.id).map(chunk => chunk.id);
+    const embeddings = await loadChunkEmbeddings(rag.db, ids);
+    return [...embeddings].map(([id, embedding]) => [chunkKey({ id, ragId: rag.id }), embedding] as const);
+  }));
+  return new Map(perRag.flat());
+}
@@ -0,0 +1,129 @@
+import { sql, and, type SQL } from "drizzle-orm";
+import { embeddings } from "../db/separate-schema";
+
+/**
+ * Metadata filters on retrieval, applied in the SQL where clause of the context and matching
+ * chunks queries. Chunks without the filtered field only pass exclusion filters.
+ */
+
+export interface RetrievalFilters {
+  yearFrom?: number;
+  yearTo?: number;
+  includeJournals?: string[]; // Case-insensitive exact journal names
+  excludeJournals?: string[];
+  authorContains?: string;
+  pmidAllow?: string[];
+  pmidDeny?: string[];
+}
+
+const FILTER_LIMITS = {
+  MIN_YEAR: 1800,
+  MAX_YEAR: 2100,
+  MAX_LIST_ENTRIES: 200,
+  MAX_TEXT_LENGTH: 200
+};
+
+// Accept a list or a comma/newline-separated string
+function parseList(value: unknown): string[] {
+  const entries = Array.isArray(value) ? value : typeof value === 'string' ? value.split(/[,\n]/) : [];
+  return entries
+    .filter((entry): entry is string | number => typeof entry === 'string' || typeof entry === 'number')
+    .map(entry => String(entry).trim().substring(0, FILTER_LIMITS.MAX_TEXT_LENGTH))
+    .filter(Boolean);
+}
+
+/**
+ * Validate a request's filters object. Returns the cleaned filters (undefined when none are set)
+ * and any problems found.
+ */
+export function parseRetrievalFilters(input: unknown): { filters?: RetrievalFilters; errors: string[] } {
+  if (input === undefined || input === null) {
+    return { errors: [] };
+  }
+  if (typeof input !== 'object' || Array.isArray(input)) {
+    return { errors: ['Filters must be an object'] };
+  }
+
+  const raw = input as Record<string, unknown>;
+  const errors: string[] = [];
+  const filters: RetrievalFilters = {};
+
+  for (const field of ['yearFrom', 'yearTo'] as const) {
+    if (raw[field] === undefined || raw[field] === null || raw[field] === '') continue;
+    const year = parseInt(String(raw[field]));
+    if (Number.isNaN(year) || year < FILTER_LIMITS.MIN_YEAR || year > FILTER_LIMITS.MAX_YEAR) {
+      errors.push(`${field} must be a year between ${FILTER_LIMITS.MIN_YEAR} and ${FILTER_LIMITS.MAX_YEAR}`);
+    } else {
+      filters[field] = year;
+    }
+  }
+  if (filters.yearFrom !== undefined && filters.yearTo !== undefined && filters.yearFrom > filters.yearTo) {
+    errors.push('yearFrom must not be after yearTo');
+  }
+
+  for (const field of ['includeJournals', 'excludeJournals', 'pmidAllow', 'pmidDeny'] as const) {
+    const list = parseList(raw[field]);
+    if (list.length > FILTER_LIMITS.MAX_LIST_ENTRIES) {
+      errors.push(`${field} can list at most ${FILTER_LIMITS.MAX_LIST_ENTRIES} entries`);
+    } else if (list.length > 0) {
+      filters[field] = list;
+    }
+  }
+
+  for (const field of ['pmidAllow', 'pmidDeny'] as const) {
+    if (filters[field]?.some(pmid => !/^\d+$/.test(pmid))) {
+      errors.push(`${field} must contain numeric PMIDs`);
+    }
+  }
+
+  if (typeof raw.authorContains === 'string' && raw.authorContains.trim()) {
+    filters.authorContains = raw.authorContains.trim().substring(0, FILTER_LIMITS.MAX_TEXT_LENGTH);
+  }
+
+  return {
+    filters: Object.keys(filters).length > 0 ? filters : undefined,
+    errors,
+  };
+}
+
+function sqlList(values: string[]): SQL {
+  return sql.join(values.map(value => sql`${value}`), sql`, `);
+}
+
+/**
+ * The filters as a where condition, or undefined when there is nothing to filter. Years are compared
+ * as text so the metadata year index can be used (4-digit years sort correctly as strings).
+ */
+export function metadataFilterCondition(filters?: RetrievalFilters): SQL | undefined {
+  if (!filters) return undefined;
+
+  const year = sql`${embeddings.metadata}->>'year'`;
+  const journal = sql`lower(${embeddings.metadata}->>'journal')`;
+  const pmid = sql`${embeddings.metadata}->>'pmid'`;
+  const conditions: SQL[] = [];
+
+  if (filters.yearFrom !== undefined) {
+    conditions.push(sql`${year} >= ${String(filters.yearFrom)}`);
+  }
+  if (filters.yearTo !== undefined) {
+    conditions.push(sql`${year} < ${String(filters.yearTo + 1)}`);
+  }
+  if (filters.includeJournals?.length) {
+    conditions.push(sql`${journal} IN (${sqlList(filters.includeJournals.map(name => name.toLowerCase()))})`);
+  }
+  if (filters.excludeJournals?.length) {
+    conditions.push(sql`(${journal} IS NULL OR ${journal} NOT IN (${sqlList(filters.excludeJournals.map(name => name.toLowerCase()))}))`);
+  }
+  if (filters.authorContains) {
+    const pattern = `%${filters.authorContains.replace(/[\\%_]/g, match => `\\${match}`)}%`;
+    conditions.push(sql`${embeddings.metadata}->>'authors' ILIKE ${pattern}`);
+  }
+  if (filters.pmidAllow?.length) {
+    conditions.push(sql`${pmid} IN (${sqlList(filters.pmidAllow)})`);
+  }
+  if (filters.pmidDeny?.length) {
+    conditions.push(sql`(${pmid} IS NULL OR ${pmid} NOT IN (${sqlList(filters.pmidDeny)}))`);
+  }
+
+  return conditions.length > 0 ? and(...conditions) : undefined;
+}
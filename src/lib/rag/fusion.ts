@@ -0,0 +1,100 @@
+/**
+ * Result merging and re-ranking for the retrieval strategies: reciprocal rank fusion of several
+ * ranked lists, and maximal marginal relevance for diverse context
+ */
+
+// Chunk ids are only unique within a RAG database, so chunks from several RAGs are told apart by this
+export function chunkKey(chunk: { id: number; ragId?: string }): string {
+  return `${chunk.ragId ?? ''}:${chunk.id}`;
+}
+
+export function cosineSimilarity(a: number[], b: number[]): number {
+  let dot = 0;
+  let normA = 0;
+  let normB = 0;
+  for (let i = 0; i < a.length; i++) {
+    dot += a[i] * b[i];
+    normA += a[i] * a[i];
+    normB += b[i] * b[i];
+  }
+  return normA === 0 || normB === 0 ? 0 : dot / (Math.sqrt(normA) * Math.sqrt(normB));
+}
+
+/**
+ * Merge ranked lists by summing 1 / (k + rank) for every list a chunk appears in. The fused score
+ * is scaled so a chunk ranked first in every list scores 1; vector and BM25 scores keep their best value.
+ */
+export function reciprocalRankFusion<T extends { id: number; vectorScore: number; bm25Score: number; similarity: number }>(
+  lists: T[][],
+  k: number
+): T[] {
+  const fused = new Map<number, { chunk: T; score: number }>();
+
+  for (const list of lists) {
+    list.forEach((chunk, rank) => {
+      const contribution = 1 / (k + rank + 1);
+      const existing = fused.get(chunk.id);
+      if (existing) {
+        existing.score += contribution;
+        existing.chunk = {
+          ...existing.chunk,
+          vectorScore: Math.max(existing.chunk.vectorScore, chunk.vectorScore),
+          bm25Score: Math.max(existing.chunk.bm25Score, chunk.bm25Score),
+        };
+      } else {
+        fused.set(chunk.id, { chunk, score: contribution });
+      }
+    });
+  }
+
+  const maxScore = lists.length / (k + 1);
+
+  return [...fused.values()]
+    .sort((a, b) => b.score - a.score)
+    .map(({ chunk, score }) => ({ ...chunk, similarity: score / maxScore }));
+}
+
+/**
+ * Pick count chunks one at a time, each time taking the chunk that best balances its relevance
+ * against its highest cosine similarity to the chunks already picked. Relevance should be on the
+ * same 0-1 scale as cosine similarity. Embeddings are looked up by chunkKey; chunks without one are
+ * skipped. Only chunks in the same embedding space (e.g. from RAGs with the same embedding model) are
+ * compared for redundancy.
+ */
+export function maximalMarginalRelevance<T extends { id: number; ragId?: string }>(
+  candidates: T[],
+  candidateEmbeddings: Map<string, number[]>,
+  relevanceOf: (chunk: T, embedding: number[]) => number,
+  count: number,
+  lambda: number,
+  embeddingSpaceOf: (chunk: T) => string = () => ''
+): T[] {
+  const remaining = candidates
+    .filter(chunk => candidateEmbeddings.has(chunkKey(chunk)))
+    .map(chunk => {
+      const embedding = candidateEmbeddings.get(chunkKey(chunk))!;
+      return { chunk, embedding, space: embeddingSpaceOf(chunk), relevance: relevanceOf(chunk, embedding) };
+    });
+  const selected: typeof remaining = [];
+
+  while (selected.length < count && remaining.length > 0) {
+    let bestIndex = 0;
+    let bestScore = -Infinity;
+
+    remaining.forEach((candidate, index) => {
+      const comparable = selected.filter(picked => picked.space === candidate.space);
+      const redundancy = comparable.length === 0
+        ? 0
+        : Math.max(...comparable.map(picked => cosineSimilarity(candidate.embedding, picked.embedding)));
+      const score = lambda * candidate.relevance - (1 - lambda) * redundancy;
+      if (score > bestScore) {
+        bestScore = score;
+        bestIndex = index;
+      }
+    });
+
+    selected.push(remaining.splice(bestIndex, 1)[0]);
+  }
+
+  return selected.map(({ chunk }) => chunk);
+}
@@ -0,0 +1,371 @@
+import { COMPLEXITY_SETTINGS, type Complexity, type RetrievalStrategy, type RrfSettings, type ScoringSettings, type ContextExpansion, type Decomposition } from "./config";
+import { parseMetadata, formatContextChunk } from "./text";
+import type { RetrievedChunk, MatchingChunk } from "./retrieval";
+import type { ConversationTurn } from "./deepinfra";
+import type { RetrievalFilters } from "./filters";
+import type { ScoreBreakdown } from "./scoring";
+import type { QueryExpansion } from "./synonyms";
+import type { QueryPlan } from "./decomposition";
+import type { RagTarget } from "./federation";
+import { countTokens, type TokenUsage } from "./tokens";
+
+/**
+ * The RAG pipeline: an ordered list of named stages (see stages.ts) that each read the pipeline state
+ * and add their output to it, plus the helpers the stages share for building the LLM context and
+ * shaping sources and matching chunks for the client.
+ * Used by the synchronous query function and by query job processing.
+ */
+
+export const NO_RESULTS_RESPONSE = "I couldn't find any relevant information in the selected RAG dataset to answer your question.";
+
+export interface Source {
+  index: number;
+  content: string;
+  similarity: number; // Retrieval score
+  rerankScore?: number; // Reranker score, when the context was reranked
+  scoreBreakdown?: ScoreBreakdown; // How score modifiers changed the ranking, when they were applied
+  metadata: unknown;
+  ragId?: string; // The RAG the source was found in
+}
+
+export interface DisplayedChunk {
+  index: number;
+  id: number;
+  content: string;
+  similarity: number;
+  rerankScore?: number;
+  scoreBreakdown?: ScoreBreakdown;
+  metadata: unknown;
+  ragId?: string;
+  usedInContext: boolean;
+  citedInResponse?: boolean;
+}
+
+/**
+ * Format the retrieved chunks as numbered, compact source blocks for the prompt, keeping at most
+ * maxChunksPerPaper chunks per paper and staying within the complexity's context budget, counted
+ * with the chat model's tokenizer
+ */
+export function buildContext(
+  chunks: RetrievedChunk[],
+  query: string,
+  complexity: Complexity,
+  maxChunksPerPaper: number,
+  model?: string
+): { context: string; sourceCount: number } {
+  const maxContextTokens = COMPLEXITY_SETTINGS[complexity].maxContextTokens;
+
+  // Group chunks by PMID to respect maxChunksPerPaper
+  const chunksByPaper: Record<string, RetrievedChunk[]> = {};
+  for (const chunk of chunks) {
+    const pmid = parseMetadata(chunk.metadata).pmid || 'no-pmid';
+    if (!chunksByPaper[pmid]) chunksByPaper[pmid] = [];
+    chunksByPaper[pmid].push(chunk);
+  }
+
+  const processedChunks = Object.values(chunksByPaper).flatMap(paperChunks => paperChunks.slice(0, maxChunksPerPaper));
+
+  let context = '';
+  let currentTokens = 0;
+  const yearRange = { min: 2024, max: 2000 };
+
+  let sourceIndex = 1;
+  for (const chunk of processedChunks) {
+    const year = parseInt(parseMetadata(chunk.metadata).year) || 2020;
+    yearRange.min = Math.min(yearRange.min, year);
+    yearRange.max = Math.max(yearRange.max, year);
+
+    const chunkText = formatContextChunk(chunk, sourceIndex);
+
+    const chunkTokens = countTokens(chunkText, model);
+
+    // Stop once over budget, but always keep at least one chunk
+    if (currentTokens + chunkTokens > maxContextTokens && context.length > 0) {
+      break;
+    }
+
+    context += chunkText + '\n';
+    currentTokens += chunkTokens;
+    sourceIndex++;
+  }
+
+  const sourceCount = sourceIndex - 1;
+  const contextSummary = `Research Context: ${sourceCount} sources (${yearRange.min}-${yearRange.max}) - Query: "${query}"\n\n`;
+
+  return { context: contextSummary + context, sourceCount };
+}
+
+/**
+ * Find which sources an answer cites, as 1-based source indices: [1], (Source 2), (3) or a source's PMID
+ */
+export function extractCitedSources(response: string, sources: { metadata: unknown }[]): Set<number> {
+  const citedIndices = new Set<number>();
+
+  const patterns = [
+    /\[(\d+)\]/g,
+    /\(Source\s+(\d+)\)/gi,
+    /Source\s+(\d+)/gi,
+    /\(\s*(\d+)\s*\)/g,
+  ];
+
+  for (const pattern of patterns) {
+    let match;
+    while ((match = pattern.exec(response)) !== null) {
+      const index = parseInt(match[1]);
+      if (index >= 1 && index <= sources.length) {
+        citedIndices.add(index);
+      }
+    }
+  }
+
+  const pmidPattern = /PMID:?\s*(\d+)/gi;
+  let pmidMatch;
+  while ((pmidMatch = pmidPattern.exec(response)) !== null) {
+    const pmid = pmidMatch[1];
+    sources.forEach((source, idx) => {
+      if (parseMetadata(source.metadata).pmid === pmid) {
+        citedIndices.add(idx + 1);
+      }
+    });
+  }
+
+  return citedIndices;
+}
+
+// The chunks used as context, numbered as they are cited
+export function formatSources(chunks: RetrievedChunk[]): Source[] {
+  return chunks.map((chunk, index) => ({
+    index: index + 1,
+    content: chunk.content,
+    similarity: chunk.similarity,
+    ...(chunk.rerankScore !== undefined && { rerankScore: chunk.rerankScore }),
+    ...(chunk.scoreBreakdown && { scoreBreakdown: chunk.scoreBreakdown }),
+    metadata: chunk.metadata,
+    ...(chunk.ragId && { ragId: chunk.ragId }),
+  }));
+}
+
+// Matching chunks for the side panel, flagged when they were used as context and,
+// once the answer is known, when the answer cites them
+export function formatMatchingChunks(
+  matchingChunks: MatchingChunk[],
+  contextChunks: RetrievedChunk[],
+  citedSources?: Set<number>
+): DisplayedChunk[] {
+  return matchingChunks.map((chunk, index) => {
+    const contextIndex = contextChunks.findIndex(contextChunk =>
+      contextChunk.ragId === chunk.ragId && (contextChunk.id === chunk.id || contextChunk.expandedWith?.includes(chunk.id))
+    );
+    const rerankScore = contextChunks[contextIndex]?.rerankScore;
+    const scoreBreakdown = contextChunks[contextIndex]?.scoreBreakdown;
+
+    return {
+      index: index + 1,
+      content: chunk.content,
+      id: chunk.id,
+      similarity: chunk.similarity,
+      ...(rerankScore !== undefined && { rerankScore }),
+      ...(scoreBreakdown && { scoreBreakdown }),
+      metadata: chunk.metadata,
+      ...(chunk.ragId && { ragId: chunk.ragId }),
+      usedInContext: contextIndex >= 0,
+      ...(citedSources && { citedInResponse: contextIndex >= 0 && citedSources.has(contextIndex + 1) }),
+    };
+  });
+}
+
+// What a pipeline run starts from: the question and the request's settings
+export interface PipelineInput {
+  query: string;
+  previousTurns: ConversationTurn[];
+  rags: RagTarget[]; // The RAGs searched; the first one's pipeline and scoring defaults apply
+  model: string;
+  complexity: Complexity;
+  outputStyle: "narrative" | "structured";
+  retrievalStrategy: RetrievalStrategy;
+  rrf: RrfSettings;
+  rerank: boolean;
+  mmrLambda?: number; // Diversify the context with MMR (also used by the mmr strategy)
+  filters?: RetrievalFilters;
+  scoring?: ScoringSettings; // Recency decay and metadata boosts, resolved from the RAG's and the request's
+  contextExpansion: ContextExpansion;
+  neighborWindow: number; // Chunks added on each side with "neighbors" expansion
+  decomposition: Decomposition; // Plan sub-questions for complex and interpretive questions
+  maxChunksPerPaper: number;
+  targetTokens?: number;
+  similarityThreshold: number;
+  vectorWeight: number;
+  textWeight: number;
+  enableVerification: boolean;
+}
+
+export interface PipelineState extends PipelineInput {
+  retrievalQuery: string; // The query used for retrieval; starts as the question itself
+  queryExpansions?: QueryExpansion[]; // Synonyms added to the BM25 query
+  queryEmbeddings?: Record<string, number[]>; // Embedding of the query's search terms, per embedding model
+  queryVariants?: string[]; // Extra queries searched by the multi-query strategies
+  hypotheticalPassage?: string; // Passage written by the chat model and embedded for the hyde strategy
+  plan?: QueryPlan; // Sub-questions of a decomposed question, with their chunks and drafted answers
+  contextChunks?: RetrievedChunk[];
+  candidateChunks?: RetrievedChunk[]; // Deeper ranked list kept for the stages that choose the context from it
+  rerankedBy?: string; // Rerank provider, once the candidates have been reranked
+  matchingChunks?: MatchingChunk[];
+  context?: string;
+  response?: string;
+  confidence?: number;
+  verified?: boolean;
+  citedSources?: Set<number>;
+  tokenUsage?: TokenUsage; // Prompt and completion tokens of the LLM calls, as the API reports them
+  halted?: boolean; // Set by a stage to skip the remaining stages, e.g. when nothing was retrieved
+}
+
+// The part of the state that stages produce
+export type StageOutput = Partial<Omit<PipelineState, keyof PipelineInput>>;
+export type StageOutputKey = keyof StageOutput;
+
+// Services a stage can use while it runs
+export interface StageContext {
+  signal?: AbortSignal; // Aborted when the job is cancelled
+  onToken?: (delta: string) => void; // Set when the caller wants the answer streamed
+  onProgress?: (message: string) => Promise<void> | void; // Progress within a stage, e.g. per sub-question
+}
+
+export interface PipelineStage {
+  name: string;
+  phase: "retrieval" | "generation";
+  progress: string; // Progress message reported when the stage starts
+  requires: StageOutputKey[]; // Outputs an earlier stage must have produced
+  produces: StageOutputKey[];
+  skip?: (state: PipelineState) => boolean;
+  run: (state: PipelineState, context: StageContext) => Promise<StageOutput> | StageOutput;
+  summarize?: (output: StageOutput, state: PipelineState) => Record<string, unknown>; // Compact view of the output for the trace
+}
+
+// Timing and intermediate output of one stage, returned with the results
+export interface StageTrace {
+  name: string;
+  status: "completed" | "skipped";
+  durationMs: number;
+  output?: Record<string, unknown>;
+}
+
+export interface PipelineHooks {
+  onStageStart?: (stage: PipelineStage) => Promise<void> | void;
+  onStageComplete?: (stage: PipelineStage, trace: StageTrace, state: PipelineState) => Promise<void> | void;
+  // Called once, before the first generation stage (or at the end if there is none)
+  onRetrievalComplete?: (state: PipelineState) => Promise<void> | void;
+}
+
+/**
+ * Check that every stage's inputs are produced by an earlier stage and that the pipeline
+ * ends with a response. Returns the problems found.
+ */
+export function validatePipeline(stages: PipelineStage[]): string[] {
+  const errors: string[] = [];
+  const available = new Set<StageOutputKey>(["retrievalQuery"]);
+
+  for (const stage of stages) {
+    for (const key of stage.requires) {
+      if (!available.has(key)) {
+        errors.push(`Stage "${stage.name}" needs ${key}, which no earlier stage produces`);
+      }
+    }
+    stage.produces.forEach(key => available.add(key));
+  }
+
+  if (!available.has("response")) {
+    errors.push("The pipeline has no stage that produces a response");
+  }
+
+  return errors;
+}
+
+/**
+ * Run the stages in order, merging each stage's output into the state and recording its timing
+ */
+export async function runPipeline(
+  stages: PipelineStage[],
+  input: PipelineInput,
+  context: StageContext = {},
+  hooks: PipelineHooks = {}
+): Promise<{ state: PipelineState; trace: StageTrace[] }> {
+  const state: PipelineState = { ...input, retrievalQuery: input.query };
+  const trace: StageTrace[] = [];
+
+  let retrievalReported = false;
+  const reportRetrieval = async () => {
+    if (retrievalReported) return;
+    retrievalReported = true;
+    await hooks.onRetrievalComplete?.(state);
+  };
+
+  for (const stage of stages) {
+    if (state.halted) break;
+
+    if (stage.phase === "generation") {
+      await reportRetrieval();
+    }
+
+    if (stage.skip?.(state)) {
+      trace.push({ name: stage.name, status: "skipped", durationMs: 0 });
+      continue;
+    }
+
+    await hooks.onStageStart?.(stage);
+
+    const startedAt = Date.now();
+    const output = await stage.run(state, context);
+    Object.assign(state, output);
+
+    const stageTrace: StageTrace = {
+      name: stage.name,
+      status: "completed",
+      durationMs: Date.now() - startedAt,
+      output: stage.summarize?.(output, state),
+    };
+    trace.push(stageTrace);
+    console.log(`[${new Date().toISOString()}] Pipeline stage ${stage.name} completed in ${stageTrace.durationMs}ms`, stageTrace.output || "");
+
+    await hooks.onStageComplete?.(stage, stageTrace, state);
+  }
+
+  await reportRetrieval();
+  return { state, trace };
+}
+
+export interface PipelineResults {
+  retrievalQuery: string;
+  retrievalStrategy: RetrievalStrategy;
+  queryVariants?: string[];
+  hypotheticalPassage?: string;
+  queryExpansions?: QueryExpansion[];
+  plan?: QueryPlan;
+  response: string;
+  sources: Source[];
+  allMatchingChunks: DisplayedChunk[];
+  confidence?: number;
+  verified?: boolean;
+  tokenUsage?: TokenUsage;
+  pipelineTrace: StageTrace[];
+}
+
+// Shape a finished pipeline run into the response returned to the client
+export function buildPipelineResults(state: PipelineState, trace: StageTrace[]): PipelineResults {
+  const contextChunks = state.contextChunks || [];
+
+  return {
+    retrievalQuery: state.retrievalQuery,
+    retrievalStrategy: state.retrievalStrategy,
+    queryVariants: state.queryVariants,
+    hypotheticalPassage: state.hypotheticalPassage,
+    queryExpansions: state.queryExpansions,
+    plan: state.plan,
+    response: state.response || NO_RESULTS_RESPONSE,
+    sources: formatSources(contextChunks),
+    allMatchingChunks: formatMatchingChunks(state.matchingChunks || [], contextChunks, state.citedSources),
+    confidence: state.confidence,
+    verified: state.verified,
+    tokenUsage: state.tokenUsage,
+    pipelineTrace: trace,
+  };
+}
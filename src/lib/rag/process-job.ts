@@ -0,0 +1,343 @@
+import { RAG_METADATA, type RagId } from "../db/separate-db";
+import {
+  updateJobProgress,
+  storeJobResults,
+  markJobFailed,
+  appendPartialResponse,
+  storeRetrievalResults,
+  storeVerificationResult,
+  claimQueryJob,
+  recordJobHeartbeat,
+  requeueQueryJob,
+  isJobCancelled,
+  type JobResults
+} from "../db/jobs";
+import type { QueryJob } from "../db/jobs-schema";
+import { saveHistoryEntry, getConversationTurns } from "../db/history";
+import { CONVERSATION_SETTINGS, selectModel, selectComplexity, selectRetrievalStrategy, selectRrfSettings, selectMmrLambda, selectContextExpansion, selectNeighborWindow, selectDecomposition, selectRagIds } from "./config";
+import type { ConversationTurn } from "./deepinfra";
+import { runPipeline, buildPipelineResults, formatSources, formatMatchingChunks } from "./pipeline";
+import { resolvePipeline } from "./stages";
+import { resolveScoring } from "./scoring";
+import { connectRags, type RagTarget } from "./federation";
+import {
+  RETRY_SETTINGS,
+  JobRetryScheduledError,
+  isTransientError,
+  backoffDelay,
+  withRetry,
+  toJobErrorRecord
+} from "./retry";
+
+/**
+ * Processing of a single query job by the background function. The job runs through its pipeline's
+ * stages, each recording its progress on the job; the retrieval output, the answer as it is generated
+ * and the verification result are written to the job as they are ready, and query-status and
+ * query-stream follow the job from there.
+ */
+
+// How often streamed answer text is written to the job for polling and streaming clients
+const PARTIAL_RESPONSE_SETTINGS = {
+  FLUSH_INTERVAL_MS: 1000
+};
+
+// How often a running job checks whether its owner has cancelled it
+const CANCELLATION_SETTINGS = {
+  CHECK_INTERVAL_MS: 3000
+};
+
+/**
+ * Thrown when a job is cancelled by its owner while it is being processed
+ */
+export class JobCancelledError extends Error {
+  constructor(jobId: string) {
+    super(`Job ${jobId} was cancelled`);
+    this.name = "JobCancelledError";
+  }
+}
+
+// Buffer streamed answer text and append it to the job at most once per flush interval.
+// Writes are chained so appends always land in order.
+function createPartialResponseWriter(jobId: string) {
+  let pending = '';
+  let lastFlush = Date.now();
+  let writes: Promise<void> = Promise.resolve();
+
+  const flush = (): Promise<void> => {
+    if (!pending) return writes;
+
+    const text = pending;
+    pending = '';
+    lastFlush = Date.now();
+    writes = writes
+      .then(() => appendPartialResponse(jobId, text))
+      .catch(error => {
+        // Partial text is only a preview; the full answer is stored when the job completes
+        console.error(`[${new Date().toISOString()}] Failed to store partial response for job ${jobId}:`, error);
+      });
+    return writes;
+  };
+
+  return {
+    write(delta: string) {
+      pending += delta;
+      if (Date.now() - lastFlush >= PARTIAL_RESPONSE_SETTINGS.FLUSH_INTERVAL_MS) {
+        flush();
+      }
+    },
+    flush,
+  };
+}
+
+// Store results on the job and keep a durable copy in the owner's history
+async function completeJob(job: QueryJob, results: JobResults): Promise<void> {
+  const stored = await withRetry("Store job results", () => storeJobResults(job.id, results));
+  if (!stored) {
+    throw new JobCancelledError(job.id);
+  }
+
+  // History is best-effort: the job result is already saved, so don't fail the job over it
+  try {
+    await saveHistoryEntry({
+      userId: job.userId!,
+      conversationId: job.conversationId,
+      jobId: job.id,
+      ragId: job.params.ragId,
+      query: job.params.query,
+      retrievalQuery: results.retrievalQuery,
+      queryExpansions: results.queryExpansions,
+      retrievalStrategy: results.retrievalStrategy,
+      queryVariants: results.queryVariants,
+      hypotheticalPassage: results.hypotheticalPassage,
+      params: job.params,
+      response: results.response,
+      sources: results.sources,
+      allMatchingChunks: results.allMatchingChunks,
+      confidence: results.confidence?.toString(),
+      verified: Boolean(results.verified),
+    });
+  } catch (historyError) {
+    console.error(`[${new Date().toISOString()}] ❌ Failed to save history for job ${job.id}:`, historyError);
+  }
+}
+
+/**
+ * Claim a pending job, then run its pipeline (retrieval, generation, verification...) and store the results.
+ * Transient failures re-queue the job (throwing JobRetryScheduledError) until its attempts run out;
+ * other failures are recorded on the job before being re-thrown. If the owner cancels the job,
+ * in-flight requests are aborted and JobCancelledError is thrown.
+ */
+export async function processQueryJob(job: QueryJob): Promise<JobResults> {
+  const jobId = job.id;
+  const { ragId, query, model, complexity, enableVerification, maxChunksPerPaper = 3, targetTokens, similarityThreshold = 0.3, vectorWeight = 0.7, textWeight = 0.3, outputStyle, retrievalStrategy, rrfK, rrfDepth, rerank, mmrLambda, filters, scoring, contextExpansion, neighborWindow, decomposition, pipeline } = job.params;
+  const logPrefix = `[JOB-${jobId.substring(0, 8)}]`;
+
+  // Claim the job so only one invocation processes it
+  console.log(`[${new Date().toISOString()}] ${logPrefix} 📝 Updating job status to processing...`);
+  let claimedJob: QueryJob | null;
+  try {
+    claimedJob = await withRetry("Claim job", () => claimQueryJob(jobId));
+  } catch (dbError) {
+    console.error(`[${new Date().toISOString()}] ${logPrefix} ❌ Database update failed:`, dbError);
+    console.error(`[${new Date().toISOString()}] ${logPrefix} ❌ DB Error details:`, {
+      name: dbError instanceof Error ? dbError.name : 'Unknown',
+      message: dbError instanceof Error ? dbError.message : String(dbError),
+      stack: dbError instanceof Error ? dbError.stack : 'No stack',
+      code: (dbError as any)?.code,
+      errno: (dbError as any)?.errno,
+      sqlState: (dbError as any)?.sqlState
+    });
+
+    throw dbError; // The job is still pending, so the sweeper will dispatch it again
+  }
+
+  if (!claimedJob) {
+    throw new Error(`Job ${jobId} is not pending`);
+  }
+
+  const attempt = claimedJob.attempts;
+  let currentStep = "Initializing query processing...";
+  console.log(`[${new Date().toISOString()}] ${logPrefix} ✅ Job claimed (attempt ${attempt}/${RETRY_SETTINGS.MAX_JOB_ATTEMPTS})`);
+
+  // Aborted when the owner cancels the job; passed to every DeepInfra request
+  const cancellation = new AbortController();
+  const throwIfCancelled = () => {
+    if (cancellation.signal.aborted) {
+      throw new JobCancelledError(jobId);
+    }
+  };
+
+  const reportProgress = async (message: string) => {
+    throwIfCancelled();
+    currentStep = message;
+    const updated = await withRetry("Progress update", () => updateJobProgress(jobId, "processing", message));
+    if (updated.length === 0) {
+      cancellation.abort();
+      throwIfCancelled();
+    }
+  };
+
+  // Keep the heartbeat fresh during long LLM calls so the sweeper knows the job is alive
+  const heartbeat = setInterval(() => {
+    recordJobHeartbeat(jobId).catch(error => {
+      console.error(`[${new Date().toISOString()}] ${logPrefix} Heartbeat failed:`, error);
+    });
+  }, RETRY_SETTINGS.HEARTBEAT_INTERVAL_MS);
+
+  // Watch for cancellation so a long embedding or LLM request can be stopped mid-flight
+  const cancellationWatch = setInterval(() => {
+    isJobCancelled(jobId)
+      .then(cancelled => {
+        if (cancelled && !cancellation.signal.aborted) {
+          console.log(`[${new Date().toISOString()}] ${logPrefix} 🛑 Job cancelled, aborting in-flight requests`);
+          cancellation.abort();
+        }
+      })
+      .catch(error => {
+        console.error(`[${new Date().toISOString()}] ${logPrefix} Cancellation check failed:`, error);
+      });
+  }, CANCELLATION_SETTINGS.CHECK_INTERVAL_MS);
+
+  try {
+    // Validate every RAG exists; jobs created before federated search only have ragId
+    const ragIds = selectRagIds(ragId, job.params.ragIds);
+    console.log(`[${new Date().toISOString()}] ${logPrefix} 🔍 Validating RAGs exist: ${ragIds.join(", ")}`);
+    const unknownRagIds = ragIds.filter(id => !RAG_METADATA[id as RagId]);
+    if (unknownRagIds.length > 0) {
+      console.error(`[${new Date().toISOString()}] ${logPrefix} ❌ RAG not found: ${unknownRagIds.join(", ")}`);
+      throw new Error("RAG not found");
+    }
+
+    // Get each RAG's configuration for dynamic model selection and connect to its database
+    let rags: RagTarget[];
+    try {
+      console.log(`[${new Date().toISOString()}] ${logPrefix} 🔌 Creating database connections...`);
+      rags = connectRags(ragIds);
+    } catch (error) {
+      console.error(`[${new Date().toISOString()}] ${logPrefix} ❌ RAG configuration error: ${error.message}`);
+      throw new Error(`Invalid RAG configuration: ${error.message}`);
+    }
+
+    for (const rag of rags) {
+      console.log(`[${new Date().toISOString()}] ${logPrefix} ✅ RAG found: ${rag.name} (${RAG_METADATA[rag.id as RagId].dimensions}D) with model: ${rag.queryModel}`);
+    }
+
+    const stages = resolvePipeline(ragId, pipeline);
+    console.log(`[${new Date().toISOString()}] ${logPrefix} Pipeline: ${stages.map(stage => stage.name).join(" → ")}`);
+
+    // Load earlier turns of the conversation; the condense stage rewrites follow-ups into a standalone query
+    let previousTurns: ConversationTurn[] = [];
+    if (job.conversationId) {
+      const turns = await withRetry("Load conversation", () =>
+        getConversationTurns(job.userId!, job.conversationId!, CONVERSATION_SETTINGS.MAX_PREVIOUS_TURNS)
+      );
+      previousTurns = turns.map(turn => ({ query: turn.query, response: turn.response }));
+    }
+
+    const partialWriter = createPartialResponseWriter(jobId);
+
+    // Like the partial answer, these are only a preview for streaming clients; the results are stored on completion
+    const storePreview = async (description: string, store: () => Promise<void>) => {
+      try {
+        await withRetry(`Store ${description}`, store);
+      } catch (error) {
+        console.error(`[${new Date().toISOString()}] ${logPrefix} Failed to store ${description}:`, error);
+      }
+    };
+
+    const { state, trace } = await runPipeline(stages, {
+      query,
+      previousTurns,
+      rags,
+      model: selectModel(model),
+      complexity: selectComplexity(complexity),
+      outputStyle: outputStyle === "narrative" ? "narrative" : "structured",
+      retrievalStrategy: selectRetrievalStrategy(retrievalStrategy),
+      rrf: selectRrfSettings(rrfK, rrfDepth),
+      rerank: Boolean(rerank),
+      mmrLambda: selectMmrLambda(mmrLambda),
+      filters,
+      scoring: resolveScoring(ragId, scoring),
+      contextExpansion: selectContextExpansion(contextExpansion),
+      neighborWindow: selectNeighborWindow(neighborWindow),
+      decomposition: selectDecomposition(decomposition),
+      maxChunksPerPaper,
+      targetTokens,
+      similarityThreshold,
+      vectorWeight,
+      textWeight,
+      enableVerification: Boolean(enableVerification),
+    }, {
+      signal: cancellation.signal,
+      onProgress: reportProgress,
+      onToken: (delta) => partialWriter.write(delta),
+    }, {
+      onStageStart: (stage) => reportProgress(stage.progress),
+      onStageComplete: async (stage, _trace, state) => {
+        await partialWriter.flush();
+        throwIfCancelled();
+        if (stage.name === "verify") {
+          await storePreview("verification result", () =>
+            storeVerificationResult(jobId, { response: state.response!, confidence: state.confidence! })
+          );
+        }
+      },
+      onRetrievalComplete: async (state) => {
+        const contextChunks = state.contextChunks || [];
+        await storePreview("retrieval results", () => storeRetrievalResults(jobId, {
+          retrievalQuery: state.retrievalQuery,
+          sources: formatSources(contextChunks),
+          allMatchingChunks: formatMatchingChunks(state.matchingChunks || [], contextChunks),
+        }));
+      },
+    });
+
+    // Store results
+    await reportProgress("Saving results...");
+    const results: JobResults = buildPipelineResults(state, trace);
+    await completeJob(job, results);
+
+    console.log(`[${new Date().toISOString()}] ${logPrefix} Processing completed for job: ${jobId}`);
+    return results;
+
+  } catch (error) {
+    // A cancelled job is already final; aborted requests surface here as AbortErrors
+    if (error instanceof JobCancelledError || cancellation.signal.aborted) {
+      console.log(`[${new Date().toISOString()}] ${logPrefix} 🛑 Processing stopped, job was cancelled`);
+      throw error instanceof JobCancelledError ? error : new JobCancelledError(jobId);
+    }
+
+    console.error(`[${new Date().toISOString()}] ❌ CRITICAL ERROR processing job ${jobId}:`, error);
+    console.error(`[${new Date().toISOString()}] ❌ Error type:`, typeof error);
+    console.error(`[${new Date().toISOString()}] ❌ Error message:`, error instanceof Error ? error.message : String(error));
+    console.error(`[${new Date().toISOString()}] ❌ Error stack:`, error instanceof Error ? error.stack : 'No stack trace');
+
+    // Transient errors get another attempt after a backoff; anything else is final
+    const retryable = isTransientError(error) && attempt < RETRY_SETTINGS.MAX_JOB_ATTEMPTS;
+    const errorRecord = toJobErrorRecord(error, currentStep, attempt, retryable);
+
+    let nextAttemptAt: Date | null = null;
+
+    try {
+      if (retryable) {
+        const retryAt = new Date(Date.now() + backoffDelay(RETRY_SETTINGS.JOB_RETRY_BASE_DELAY_MS, attempt - 1));
+        await requeueQueryJob(jobId, errorRecord, retryAt);
+        nextAttemptAt = retryAt;
+        console.log(`[${new Date().toISOString()}] ✅ Job re-queued, next attempt at ${retryAt.toISOString()}`);
+      } else {
+        await markJobFailed(jobId, errorRecord);
+        console.log(`[${new Date().toISOString()}] ✅ Job marked as failed in database`);
+      }
+    } catch (dbError) {
+      console.error(`[${new Date().toISOString()}] ❌ Failed to record job failure:`, dbError);
+    }
+
+    if (nextAttemptAt) {
+      throw new JobRetryScheduledError(errorRecord.message, nextAttemptAt);
+    }
+    throw error;
+  } finally {
+    clearInterval(heartbeat);
+    clearInterval(cancellationWatch);
+  }
+}
@@ -0,0 +1,82 @@
+import type { ComplexityConfig } from "./config";
+import type { QueryPlan } from "./decomposition";
+
+/**
+ * Prompt templates for answer generation
+ */
+
+export function generateStructuredPrompt(query: string, context: string, ragName: string, complexityConfig: ComplexityConfig): string {
+  return `You are a specialized AI assistant in biological research, operating at Professor level.
+
+QUERY: ${query}
+
+CONTEXT from ${ragName} research papers:
+${context}
+
+PROVIDE A STRUCTURED RESPONSE:
+
+1. EXECUTIVE SUMMARY (2-3 sentences)
+2. SCIENTIFIC ANALYSIS (mechanisms, pathways, experimental details)
+3. EVIDENCE EVALUATION (cite as "Finding (2024, PMID:12345678)")
+4. LIMITATIONS & GAPS
+5. BIOLOGICAL CONTEXT
+
+${complexityConfig.instruction}`;
+}
+
+export function generateNarrativePrompt(query: string, context: string, ragName: string, complexityConfig: ComplexityConfig): string {
+  return `You are an expert scientific writer, operating at Professor level. Write a manuscript-style narrative response.
+
+QUERY: ${query}
+
+CONTEXT from ${ragName} research papers:
+${context}
+
+Write a flowing narrative that:
+- Establishes biological significance
+- Synthesizes current understanding from literature
+- Integrates citations naturally: "Studies show X (2024, PMID:12345678)"
+- Discusses mechanisms and implications
+- Uses scholarly tone with smooth transitions
+- Avoids bullet points - write in paragraph form
+
+${complexityConfig.instruction}`;
+}
+
+// The sub-questions of a decomposed question, with any drafted answers, for the answer prompt
+function generatePlanSection(plan: QueryPlan): string {
+  const drafted = plan.subQuestions.some(subQuestion => subQuestion.answer);
+  const subQuestions = plan.subQuestions
+    .map((subQuestion, i) => `${i + 1}. ${subQuestion.question}${subQuestion.answer ? `\n   DRAFT ANSWER: ${subQuestion.answer}` : ''}`)
+    .join('\n');
+
+  return `
+
+THE QUERY HAS BEEN BROKEN INTO THESE SUB-QUESTIONS:
+${subQuestions}
+
+Cover every sub-question, then bring them together to answer the query as a whole: compare, contrast and draw implications across them rather than answering each in isolation.${drafted ? ' The draft answers were written from the same sources; use them as notes, check them against the context and keep their citations.' : ''}`;
+}
+
+// The answer prompt for the requested output style ("narrative", anything else is structured),
+// composed across the sub-questions when the question was decomposed
+export function generateAnswerPrompt(query: string, context: string, ragName: string, complexityConfig: ComplexityConfig, outputStyle: string, plan?: QueryPlan): string {
+  const prompt = outputStyle === "narrative"
+    ? generateNarrativePrompt(query, context, ragName, complexityConfig)
+    : generateStructuredPrompt(query, context, ragName, complexityConfig);
+  return plan ? prompt + generatePlanSection(plan) : prompt;
+}
+
+// Prompt for drafting the answer to one sub-question from its own sources
+export function generateSubAnswerPrompt(subQuestion: string, query: string, context: string, ragName: string): string {
+  return `You are a specialized AI assistant in biological research, operating at Professor level. You are answering one part of a larger question.
+
+QUERY: ${query}
+
+SUB-QUESTION: ${subQuestion}
+
+CONTEXT from ${ragName} research papers:
+${context}
+
+Answer the sub-question only, in one or two short paragraphs, using only the context. Cite findings as "Finding (2024, PMID:12345678)". If the context does not answer the sub-question, say so in one sentence.`;
+}
@@ -0,0 +1,66 @@
+import { RERANK_SETTINGS } from "./config";
+import { createBM25Query } from "./text";
+import { rerankDocuments } from "./deepinfra";
+import type { RetrievedChunk } from "./retrieval";
+
+/**
+ * Reranking of retrieval candidates. A reranker scores each (query, chunk) pair directly, which is
+ * more precise than the retrieval scores but too slow for a whole database, so only the top
+ * candidates are reranked.
+ */
+
+export interface RerankProvider {
+  name: string;
+  // Relevance of each document to the query, in document order (higher is better)
+  score: (query: string, documents: string[], signal?: AbortSignal) => Promise<number[]>;
+}
+
+const deepInfraReranker: RerankProvider = {
+  name: `deepinfra:${RERANK_SETTINGS.MODEL}`,
+  score: (query, documents, signal) => rerankDocuments(query, documents, RERANK_SETTINGS.MODEL, signal),
+};
+
+// Local stand-in that needs no API: the share of the query's key terms that appear in the chunk
+const lexicalReranker: RerankProvider = {
+  name: "lexical",
+  score: async (query, documents) => {
+    const terms = createBM25Query(query).split(' ').filter(Boolean);
+    return documents.map(document => {
+      if (terms.length === 0) return 0;
+      const text = document.toLowerCase();
+      return terms.filter(term => text.includes(term)).length / terms.length;
+    });
+  },
+};
+
+const RERANK_PROVIDERS: Record<string, RerankProvider> = {
+  "deepinfra": deepInfraReranker,
+  "lexical": lexicalReranker,
+};
+
+export function getRerankProvider(name: string = RERANK_SETTINGS.PROVIDER): RerankProvider {
+  const provider = RERANK_PROVIDERS[name];
+  if (!provider) {
+    throw new Error(`Unknown rerank provider: ${name}`);
+  }
+  return provider;
+}
+
+/**
+ * Score the chunks with the provider and sort them by that score. The retrieval score is kept
+ * in similarity and the reranker's score is added as rerankScore.
+ */
+export async function rerankChunks(
+  provider: RerankProvider,
+  query: string,
+  chunks: RetrievedChunk[],
+  signal?: AbortSignal
+): Promise<RetrievedChunk[]> {
+  if (chunks.length === 0) return chunks;
+
+  const scores = await provider.score(query, chunks.map(chunk => chunk.content), signal);
+
+  return chunks
+    .map((chunk, index) => ({ ...chunk, rerankScore: scores[index] }))
+    .sort((a, b) => b.rerankScore - a.rerankScore);
+}
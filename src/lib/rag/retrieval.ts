@@ -0,0 +1,332 @@
+import { sql, and, inArray } from "drizzle-orm";
+import { createRagDbConnection } from "../db/separate-db";
+import { embeddings } from "../db/separate-schema";
+import { COMPLEXITY_SETTINGS, RETRIEVAL_SETTINGS, type Complexity, type RetrievalStrategy, type RrfSettings } from "./config";
+import { parseMetadata, formatContextChunk } from "./text";
+import { countTokens } from "./tokens";
+import { reciprocalRankFusion } from "./fusion";
+import { metadataFilterCondition, type RetrievalFilters } from "./filters";
+import type { ScoreBreakdown } from "./scoring";
+import type { QueryExpansion } from "./synonyms";
+import { buildBM25Query, type BM25Query } from "./bm25-query";
+
+/**
+ * Retrieval over a RAG database with pgvector cosine similarity and pg_search BM25, combined
+ * according to the request's retrieval strategy
+ */
+
+export type RagDb = ReturnType<typeof createRagDbConnection>;
+
+// A chunk selected as context for the answer
+export interface RetrievedChunk {
+  id: number;
+  content: string;
+  metadata: unknown;
+  vectorScore: number;
+  bm25Score: number;
+  similarity: number; // The strategy's score: a weighted combination, a single side, or the fused rank score
+  rerankScore?: number; // Set when the chunk was reranked
+  scoreBreakdown?: ScoreBreakdown; // Set when score modifiers were applied
+  expandedWith?: number[]; // Ids of the neighbouring chunks merged into the content, in document order
+  ragId?: string; // The RAG the chunk was found in, set once results are tagged (see federation.ts)
+}
+
+// A chunk shown in the matching chunks panel
+export interface MatchingChunk {
+  id: number;
+  content: string;
+  metadata: unknown;
+  similarity: number;
+  ragId?: string;
+}
+
+// Another phrasing of the query, searched alongside it by the multi-query strategies
+export interface QueryVariant {
+  query: string;
+  embedding: number[];
+}
+
+export interface RetrievalSettings {
+  strategy: RetrievalStrategy;
+  complexity: Complexity;
+  targetTokens?: number;
+  model?: string; // Chat model whose tokenizer measures the token target
+  vectorWeight: number;
+  textWeight: number;
+  filters?: RetrievalFilters;
+  queryExpansions?: QueryExpansion[]; // Synonyms added to the BM25 query
+  rrf?: RrfSettings; // Fusion constant and per-list depth for the fusion strategies
+  queryVariants?: QueryVariant[];
+  hypotheticalEmbedding?: number[]; // Embedding of the hyde strategy's generated passage
+  candidateCount?: number; // Return this many ranked candidates, untrimmed, for a later reranking step
+}
+
+// Combined score; a zero weight drops that side entirely
+function hybridSimilarity(embeddingString: string, vectorWeight: number, textWeight: number) {
+  return vectorWeight === 0
+    ? sql<number>`LEAST(paradedb.score(${embeddings.id}) / 10.0, 1.0)`
+    : textWeight === 0
+    ? sql<number>`1 - (${embeddings.embedding} <=> ${embeddingString}::vector)`
+    : sql<number>`${vectorWeight} * (1 - (${embeddings.embedding} <=> ${embeddingString}::vector)) + ${textWeight} * LEAST(paradedb.score(${embeddings.id}) / 10.0, 1.0)`;
+}
+
+// Tokens a chunk takes up in the context with the chat model's tokenizer, counted on the text the
+// context builder renders for it. Its source number isn't known yet, so a two-digit one is assumed.
+export function countChunkTokens(chunk: { content: string; metadata: unknown; similarity: number }, model?: string): number {
+  return countTokens(formatContextChunk(chunk, 10), model);
+}
+
+// What a token target leaves for the chunks after the context summary and the answer
+function targetTokenBudget(targetTokens: number, query: string, model?: string): number {
+  const contextSummary = `Research Context: Query: "${query}"\n\n`;
+  const contextTokens = countTokens(contextSummary, model);
+  return targetTokens - contextTokens - 500; // Reserve 500 tokens for the LLM response
+}
+
+// Tokens the context chunks may use: the token target's budget, or the complexity's context budget
+export function contextTokenBudget(settings: Pick<RetrievalSettings, "complexity" | "targetTokens" | "model">, query: string): number {
+  return settings.targetTokens
+    ? targetTokenBudget(settings.targetTokens, query, settings.model)
+    : COMPLEXITY_SETTINGS[settings.complexity].maxContextTokens;
+}
+
+// Trim chunks to a token budget, taking one chunk per paper first to keep the sources diverse
+export function applyTokenLimit<T extends { content: string; metadata: unknown; similarity: number }>(results: T[], targetTokens: number, query: string, model?: string): T[] {
+  const availableTokens = targetTokenBudget(targetTokens, query, model);
+
+  if (availableTokens <= 0) {
+    return results.slice(0, 1);
+  }
+
+  let totalTokens = 0;
+  const selectedChunks: T[] = [];
+  const seenPapers = new Set<string>();
+
+  // First pass: one chunk per paper until the budget is used
+  for (const chunk of results) {
+    const metadata = parseMetadata(chunk.metadata);
+    const pmid = metadata.pmid || 'unknown';
+
+    if (!seenPapers.has(pmid)) {
+      const chunkTokens = countChunkTokens(chunk, model);
+
+      if (totalTokens + chunkTokens <= availableTokens) {
+        selectedChunks.push(chunk);
+        seenPapers.add(pmid);
+        totalTokens += chunkTokens;
+      } else {
+        break;
+      }
+    }
+  }
+
+  // Second pass: fill the remaining space with further chunks
+  for (const chunk of results) {
+    if (selectedChunks.includes(chunk)) continue;
+
+    const chunkTokens = countChunkTokens(chunk, model);
+
+    if (totalTokens + chunkTokens <= availableTokens) {
+      selectedChunks.push(chunk);
+      totalTokens += chunkTokens;
+    } else {
+      break;
+    }
+  }
+
+  return selectedChunks;
+}
+
+// One ranked search: pure vector, pure BM25 or the weighted hybrid of the two
+async function searchChunks(
+  db: RagDb,
+  method: "vector" | "bm25" | "hybrid",
+  queryEmbedding: number[],
+  bm25Query: BM25Query,
+  weights: Pick<RetrievalSettings, "vectorWeight" | "textWeight">,
+  limit: number,
+  filters?: RetrievalFilters
+): Promise<RetrievedChunk[]> {
+  const embeddingString = `[${queryEmbedding.join(',')}]`;
+  // Field prefixes in the query restrict every side of the search, like the request's filters
+  const filterCondition = and(metadataFilterCondition(filters), bm25Query.fieldCondition);
+  const vectorScore = sql<number>`1 - (${embeddings.embedding} <=> ${embeddingString}::vector)`;
+  const bm25Score = sql<number>`LEAST(paradedb.score(${embeddings.id}) / 10.0, 1.0)`;
+
+  if (method === "vector") {
+    return db
+      .select({
+        id: embeddings.id,
+        content: embeddings.content,
+        metadata: embeddings.metadata,
+        vectorScore,
+        bm25Score: sql<number>`0`,
+        similarity: vectorScore,
+      })
+      .from(embeddings)
+      .where(filterCondition)
+      .orderBy(sql`${embeddings.embedding} <=> ${embeddingString}::vector`)
+      .limit(limit);
+  }
+
+  if (method === "bm25") {
+    return db
+      .select({
+        id: embeddings.id,
+        content: embeddings.content,
+        metadata: embeddings.metadata,
+        vectorScore,
+        bm25Score,
+        similarity: bm25Score,
+      })
+      .from(embeddings)
+      .where(and(sql`${embeddings.content} @@@ ${bm25Query.text}`, filterCondition))
+      .orderBy(sql`paradedb.score(${embeddings.id}) DESC`)
+      .limit(limit);
+  }
+
+  const similarityCalc = hybridSimilarity(embeddingString, weights.vectorWeight, weights.textWeight);
+
+  return db
+    .select({
+      id: embeddings.id,
+      content: embeddings.content,
+      metadata: embeddings.metadata,
+      vectorScore,
+      bm25Score,
+      similarity: similarityCalc,
+    })
+    .from(embeddings)
+    .where(and(
+      sql`(${embeddings.content} @@@ ${bm25Query.text}
+        OR (${embeddings.embedding} <=> ${embeddingString}::vector) < 0.5)`,
+      filterCondition
+    ))
+    .orderBy(sql`${similarityCalc} DESC`)
+    .limit(limit);
+}
+
+// Stored embeddings of the given chunks, for diversity re-ranking
+export async function loadChunkEmbeddings(db: RagDb, ids: number[]): Promise<Map<number, number[]>> {
+  if (ids.length === 0) return new Map();
+
+  const rows = await db
+    .select({ id: embeddings.id, embedding: embeddings.embedding })
+    .from(embeddings)
+    .where(inArray(embeddings.id, ids));
+
+  return new Map(rows.filter(row => row.embedding).map(row => [row.id, row.embedding!]));
+}
+
+/**
+ * Find the chunks to use as context with the requested strategy. The embedding is of the retrieval
+ * query; BM25 matches its key terms and their synonyms. Fusion, multi-query and hyde strategies work
+ * from deeper candidate lists. With a token target, more chunks are fetched and
+ * then trimmed to fit.
+ */
+export async function findSimilarEmbeddings(
+  db: RagDb,
+  queryEmbedding: number[],
+  retrievalQuery: string,
+  settings: RetrievalSettings
+): Promise<RetrievedChunk[]> {
+  const { strategy, complexity, targetTokens, vectorWeight, textWeight, candidateCount } = settings;
+  const chunkCount = candidateCount ?? (targetTokens ? 50 : COMPLEXITY_SETTINGS[complexity].chunkCount);
+  const rrf = settings.rrf || { k: RETRIEVAL_SETTINGS.RRF_K, depth: RETRIEVAL_SETTINGS.RRF_DEPTH };
+  const weights = { vectorWeight, textWeight };
+
+  const bm25Query = buildBM25Query(retrievalQuery, settings.queryExpansions);
+
+  let results: RetrievedChunk[];
+  switch (strategy) {
+    case "rrf": {
+      // Separate kNN and BM25 rankings, merged by rank so the two score scales never mix
+      const lists = await Promise.all([
+        searchChunks(db, "vector", queryEmbedding, bm25Query, weights, rrf.depth, settings.filters),
+        searchChunks(db, "bm25", queryEmbedding, bm25Query, weights, rrf.depth, settings.filters),
+      ]);
+      results = reciprocalRankFusion(lists, rrf.k).slice(0, chunkCount);
+      break;
+    }
+    case "multi-query":
+    case "llm-multi-query": {
+      const variants = [
+        { query: retrievalQuery, embedding: queryEmbedding },
+        ...(settings.queryVariants || []),
+      ];
+      const lists = await Promise.all(variants.map(variant => {
+        // The variants keep the query's field prefixes, which only the query itself spells out
+        const variantQuery = { ...buildBM25Query(variant.query, settings.queryExpansions), fieldCondition: bm25Query.fieldCondition };
+        return searchChunks(db, "hybrid", variant.embedding, variantQuery, weights, rrf.depth, settings.filters);
+      }));
+      results = reciprocalRankFusion(lists, rrf.k).slice(0, chunkCount);
+      break;
+    }
+    case "hyde": {
+      // The query's hybrid ranking merged with a kNN ranking for the hypothetical passage, which is
+      // closer to the abstracts' wording than the question; without a passage this is plain hybrid
+      const lists = await Promise.all([
+        searchChunks(db, "hybrid", queryEmbedding, bm25Query, weights, rrf.depth, settings.filters),
+        ...(settings.hypotheticalEmbedding
+          ? [searchChunks(db, "vector", settings.hypotheticalEmbedding, bm25Query, weights, rrf.depth, settings.filters)]
+          : []),
+      ]);
+      results = reciprocalRankFusion(lists, rrf.k).slice(0, chunkCount);
+      break;
+    }
+    default:
+      // mmr searches like hybrid; the diversify stage then picks the context from its candidates
+      results = await searchChunks(db, strategy === "mmr" ? "hybrid" : strategy, queryEmbedding, bm25Query, weights, chunkCount, settings.filters);
+  }
+
+  if (candidateCount || !targetTokens) {
+    return results;
+  }
+
+  return applyTokenLimit(results, targetTokens, retrievalQuery, settings.model);
+}
+
+// Cut ranked candidates down to the context: the token target if there is one, else the complexity's chunk count
+export function limitContextChunks<T extends { content: string; metadata: unknown; similarity: number }>(
+  chunks: T[],
+  settings: Pick<RetrievalSettings, "complexity" | "targetTokens" | "model">,
+  retrievalQuery: string
+): T[] {
+  return settings.targetTokens
+    ? applyTokenLimit(chunks, settings.targetTokens, retrievalQuery, settings.model)
+    : chunks.slice(0, COMPLEXITY_SETTINGS[settings.complexity].chunkCount);
+}
+
+/**
+ * Find every chunk scoring above the similarity threshold (up to 100), for the matching chunks panel
+ */
+export async function findMatchingChunks(
+  db: RagDb,
+  queryEmbedding: number[],
+  retrievalQuery: string,
+  settings: Pick<RetrievalSettings, "vectorWeight" | "textWeight" | "filters" | "queryExpansions"> & { similarityThreshold: number }
+): Promise<MatchingChunk[]> {
+  const { vectorWeight, textWeight, similarityThreshold, filters } = settings;
+  const embeddingString = `[${queryEmbedding.join(',')}]`;
+  const bm25Query = buildBM25Query(retrievalQuery, settings.queryExpansions);
+  const similarityCalc = hybridSimilarity(embeddingString, vectorWeight, textWeight);
+
+  const allMatchingChunks = await db
+    .select({
+      id: embeddings.id,
+      content: embeddings.content,
+      metadata: embeddings.metadata,
+      similarity: similarityCalc,
+    })
+    .from(embeddings)
+    .where(and(
+      sql`(${embeddings.content} @@@ ${bm25Query.text}
+        OR (${embeddings.embedding} <=> ${embeddingString}::vector) < 0.9)`,
+      metadataFilterCondition(filters),
+      bm25Query.fieldCondition
+    ))
+    .orderBy(sql`${similarityCalc} DESC`)
+    .limit(100);
+
+  return allMatchingChunks.filter(chunk => chunk.similarity > similarityThreshold);
+}
@@ -0,0 +1,127 @@
+import type { JobErrorRecord } from "../db/jobs-schema";
+
+function envInt(name: string, fallback: number): number {
+  const value = parseInt(process.env[name] || "");
+  return Number.isNaN(value) ? fallback : value;
+}
+
+// Retry policy for transient DeepInfra and Neon failures, and recovery of interrupted jobs
+export const RETRY_SETTINGS = {
+  MAX_RETRIES: envInt("QUERY_MAX_RETRIES", 3), // Retries of a single API or database call
+  RETRY_BASE_DELAY_MS: envInt("QUERY_RETRY_BASE_DELAY_MS", 1000), // Doubled after each retry
+  MAX_JOB_ATTEMPTS: envInt("QUERY_JOB_MAX_ATTEMPTS", 3), // Times a whole job is run before it is marked failed
+  JOB_RETRY_BASE_DELAY_MS: envInt("QUERY_JOB_RETRY_BASE_DELAY_MS", 30000), // Delay before a re-queued job is dispatched
+  HEARTBEAT_INTERVAL_MS: 30000,
+  STALE_AFTER_MS: envInt("QUERY_JOB_STALE_AFTER_SECONDS", 180) * 1000, // No heartbeat for this long means the job died
+  DISPATCH_AFTER_MS: 60000, // Pending jobs nobody has started within this time are dispatched by the sweeper
+};
+
+// Network and Postgres error codes worth retrying
+const TRANSIENT_ERROR_CODES = new Set([
+  "ECONNRESET", "ECONNREFUSED", "ETIMEDOUT", "EAI_AGAIN", "EPIPE",
+  "UND_ERR_SOCKET", "UND_ERR_CONNECT_TIMEOUT", "UND_ERR_HEADERS_TIMEOUT",
+  "40001", // serialization_failure
+  "40P01", // deadlock_detected
+  "53300", // too_many_connections
+  "57P01", // admin_shutdown
+  "57P03", // cannot_connect_now
+]);
+
+/**
+ * Error returned by the DeepInfra API, keeping the HTTP status for retry decisions
+ */
+export class DeepInfraApiError extends Error {
+  status: number;
+
+  constructor(status: number, statusText: string) {
+    super(`DeepInfra API error: ${statusText}`);
+    this.name = "DeepInfraApiError";
+    this.status = status;
+  }
+}
+
+function errorCode(error: unknown): string | undefined {
+  const code = (error as any)?.code ?? (error as any)?.cause?.code;
+  return typeof code === "string" ? code : undefined;
+}
+
+/**
+ * Whether an error is likely to go away if the operation is tried again
+ */
+export function isTransientError(error: unknown): boolean {
+  if (error instanceof DeepInfraApiError) {
+    return error.status === 408 || error.status === 429 || error.status >= 500;
+  }
+
+  const code = errorCode(error);
+  if (code && (TRANSIENT_ERROR_CODES.has(code) || code.startsWith("08"))) { // 08xxx: connection exceptions
+    return true;
+  }
+
+  const message = error instanceof Error ? error.message : String(error);
+  return /fetch failed|socket hang up|network|ECONNRESET/i.test(message);
+}
+
+/**
+ * Exponential backoff with jitter
+ */
+export function backoffDelay(baseDelayMs: number, retry: number): number {
+  return Math.round(baseDelayMs * 2 ** retry + Math.random() * baseDelayMs);
+}
+
+/**
+ * Run an operation, retrying transient failures with exponential backoff
+ */
+export async function withRetry<T>(
+  label: string,
+  operation: () => Promise<T>,
+  canRetry: (error: unknown) => boolean = isTransientError
+): Promise<T> {
+  for (let retry = 0; ; retry++) {
+    try {
+      return await operation();
+    } catch (error) {
+      if (retry >= RETRY_SETTINGS.MAX_RETRIES || !canRetry(error)) {
+        throw error;
+      }
+
+      const delay = backoffDelay(RETRY_SETTINGS.RETRY_BASE_DELAY_MS, retry);
+      console.warn(`[${new Date().toISOString()}] ${label} failed (${error instanceof Error ? error.message : String(error)}), retrying in ${delay}ms (${retry + 1}/${RETRY_SETTINGS.MAX_RETRIES})`);
+      await new Promise(resolve => setTimeout(resolve, delay));
+    }
+  }
+}
+
+/**
+ * Build the structured error record stored on a job for a failed attempt
+ */
+export function toJobErrorRecord(error: unknown, step: string | undefined, attempt: number, transient: boolean): JobErrorRecord {
+  const code = error instanceof DeepInfraApiError
+    ? "DEEPINFRA_ERROR"
+    : errorCode(error) && /^[0-9][0-9A-Z]{4}$/.test(errorCode(error)!)
+    ? "DATABASE_ERROR"
+    : "PROCESSING_ERROR";
+
+  return {
+    message: error instanceof Error ? error.message : "Unknown error occurred",
+    code,
+    step,
+    status: error instanceof DeepInfraApiError ? error.status : undefined,
+    transient,
+    attempt,
+    occurredAt: new Date().toISOString(),
+  };
+}
+
+/**
+ * Thrown when a job failed with a transient error and has been re-queued for another attempt
+ */
+export class JobRetryScheduledError extends Error {
+  nextAttemptAt: Date;
+
+  constructor(message: string, nextAttemptAt: Date) {
+    super(message);
+    this.name = "JobRetryScheduledError";
+    this.nextAttemptAt = nextAttemptAt;
+  }
+}
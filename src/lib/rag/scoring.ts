@@ -0,0 +1,89 @@
+import { RAG_SCORING, SCORING_SETTINGS, type ScoringSettings } from "./config";
+import { parseMetadata } from "./text";
+import type { RetrievedChunk } from "./retrieval";
+
+/**
+ * Score modifiers applied on top of retrieval relevance: a recency decay on metadata.year and boosts
+ * from metadata.citation_count and metadata.publication_type. Each modifier is a multiplier, and a
+ * chunk without the field it reads is left unchanged by it.
+ */
+
+export interface ScoreBreakdown {
+  relevance: number; // Retrieval score, or the normalised reranker score after reranking
+  recency: number;
+  citations: number;
+  publicationType: number;
+  final: number; // relevance × recency × citations × publicationType
+}
+
+// The RAG's score modifiers with the request's on top, or undefined when none of them is active
+export function resolveScoring(ragId: string, requested?: Partial<ScoringSettings>): ScoringSettings | undefined {
+  const merged = { ...RAG_SCORING[ragId], ...requested };
+  const scoring: ScoringSettings = {
+    recencyHalfLife: merged.recencyHalfLife,
+    recencyWeight: merged.recencyWeight ?? SCORING_SETTINGS.RECENCY_WEIGHT,
+    citationWeight: merged.citationWeight ?? 0,
+    publicationTypeBoosts: merged.publicationTypeBoosts ?? {},
+  };
+
+  const active = (scoring.recencyHalfLife !== undefined && scoring.recencyWeight > 0)
+    || scoring.citationWeight > 0
+    || Object.keys(scoring.publicationTypeBoosts).length > 0;
+  return active ? scoring : undefined;
+}
+
+// 1 for this year's papers, halving every half-life for the weighted share of the score
+function recencyFactor(year: number, scoring: ScoringSettings, currentYear: number): number {
+  if (scoring.recencyHalfLife === undefined || Number.isNaN(year)) return 1;
+  const age = Math.max(currentYear - year, 0);
+  return 1 - scoring.recencyWeight + scoring.recencyWeight * Math.pow(0.5, age / scoring.recencyHalfLife);
+}
+
+// Log-scaled, so the first hundred citations count for more than the next thousand
+function citationFactor(citations: number, scoring: ScoringSettings): number {
+  if (scoring.citationWeight === 0 || Number.isNaN(citations) || citations <= 0) return 1;
+  const scaled = Math.log1p(citations) / Math.log1p(SCORING_SETTINGS.CITATION_SATURATION);
+  return 1 + scoring.citationWeight * Math.min(scaled, 1);
+}
+
+// The boost of the longest matching type name, so "systematic review" wins over "review"
+function publicationTypeFactor(types: unknown, scoring: ScoringSettings): number {
+  const typeList = (Array.isArray(types) ? types : [types])
+    .filter((type): type is string => typeof type === 'string')
+    .map(type => type.toLowerCase());
+
+  const matches = Object.keys(scoring.publicationTypeBoosts)
+    .filter(name => typeList.some(type => type.includes(name)))
+    .sort((a, b) => b.length - a.length);
+  return matches.length > 0 ? scoring.publicationTypeBoosts[matches[0]] : 1;
+}
+
+// The product of a breakdown's modifiers, for stages that combine them with their own relevance
+export function scoreMultiplier(breakdown: Pick<ScoreBreakdown, "recency" | "citations" | "publicationType">): number {
+  return breakdown.recency * breakdown.citations * breakdown.publicationType;
+}
+
+/**
+ * Apply the score modifiers to each chunk's relevance and order the chunks by the final score,
+ * recording the breakdown on each chunk
+ */
+export function applyScoring(
+  chunks: RetrievedChunk[],
+  scoring: ScoringSettings,
+  relevanceOf: (chunk: RetrievedChunk) => number,
+  currentYear: number = new Date().getFullYear()
+): RetrievedChunk[] {
+  return chunks
+    .map(chunk => {
+      const metadata = parseMetadata(chunk.metadata);
+      const relevance = relevanceOf(chunk);
+      const modifiers = {
+        recency: recencyFactor(parseInt(metadata.year), scoring, currentYear),
+        citations: citationFactor(parseInt(metadata.citation_count), scoring),
+        publicationType: publicationTypeFactor(metadata.publication_type, scoring),
+      };
+      const scoreBreakdown: ScoreBreakdown = { relevance, ...modifiers, final: relevance * scoreMultiplier(modifiers) };
+      return { ...chunk, scoreBreakdown };
+    })
+    .sort((a, b) => b.scoreBreakdown.final - a.scoreBreakdown.final);
+}
@@ -0,0 +1,561 @@
+import { RAG_PIPELINES, COMPLEXITY_SETTINGS, RETRIEVAL_SETTINGS, RERANK_SETTINGS, DECOMPOSITION_SETTINGS } from "./config";
+import { generateQueryVariants } from "./text";
+import { findQueryExpansions } from "./synonyms";
+import { buildBM25Query, searchTerms } from "./bm25-query";
+import { countTokens, modelTokenizer, addUsage } from "./tokens";
+import { findSimilarEmbeddings, findMatchingChunks, limitContextChunks, contextTokenBudget, type RetrievedChunk } from "./retrieval";
+import { expandContextChunks } from "./expansion";
+import { mergeSubQuestionChunks, subQuestionContextChunks } from "./decomposition";
+import { searchRags, embedForRags, loadRagChunkEmbeddings, ragNames } from "./federation";
+import { maximalMarginalRelevance, cosineSimilarity, chunkKey } from "./fusion";
+import { getRerankProvider, rerankChunks } from "./rerank";
+import { applyScoring, scoreMultiplier } from "./scoring";
+import { condenseFollowUpQuery, generateQueryParaphrases, generateHypotheticalPassage, planSubQuestions, answerSubQuestion, generateResponse, verifyResponse } from "./deepinfra";
+import { NO_RESULTS_RESPONSE, buildContext, extractCitedSources, validatePipeline, type PipelineStage, type PipelineState } from "./pipeline";
+import { withRetry, isTransientError } from "./retry";
+
+/**
+ * The built-in pipeline stages and how a pipeline definition (a list of stage names) is resolved
+ * for a request. To add a stage, register it in PIPELINE_STAGES and name it in a definition.
+ */
+
+function diversifies(state: PipelineState): boolean {
+  return state.retrievalStrategy === "mmr" || state.mmrLambda !== undefined;
+}
+
+// Candidates the search keeps for reranking, scoring and diversification, or undefined if none of them runs
+function candidatePoolSize(state: PipelineState): number | undefined {
+  const sizes = [
+    ...(state.rerank ? [RERANK_SETTINGS.TOP_N] : []),
+    ...(diversifies(state) || state.scoring ? [RETRIEVAL_SETTINGS.CANDIDATE_DEPTH] : []),
+  ];
+  return sizes.length > 0 ? Math.max(...sizes) : undefined;
+}
+
+// Reranker scores scaled to 0-1 across the candidates, so they can be combined with other scores
+function normalizedRerankScore(candidates: RetrievedChunk[]): (chunk: RetrievedChunk) => number {
+  const rerankScores = candidates.map(chunk => chunk.rerankScore ?? 0);
+  const minRerank = Math.min(...rerankScores);
+  const rerankRange = Math.max(...rerankScores) - minRerank || 1;
+  return (chunk) => ((chunk.rerankScore ?? minRerank) - minRerank) / rerankRange;
+}
+
+// Context chunks per RAG, for the trace of a search over several RAGs
+function countByRag(chunks: RetrievedChunk[]): Record<string, number> {
+  const counts: Record<string, number> = {};
+  for (const chunk of chunks) {
+    const ragId = chunk.ragId || '';
+    counts[ragId] = (counts[ragId] || 0) + 1;
+  }
+  return counts;
+}
+
+// The BM25 query the search ran, and why it fell back to the key terms if it did
+function bm25QuerySummary(state: PipelineState) {
+  const { text, syntax, error } = buildBM25Query(state.retrievalQuery, state.queryExpansions);
+  return { text, syntax, ...(error && { error }) };
+}
+
+export const PIPELINE_STAGES: Record<string, PipelineStage> = {
+  // Rewrite a follow-up into a standalone query for retrieval
+  "condense": {
+    name: "condense",
+    phase: "retrieval",
+    progress: "Interpreting follow-up question...",
+    requires: [],
+    produces: ["retrievalQuery"],
+    skip: (state) => state.previousTurns.length === 0,
+    run: async (state, { signal }) => ({
+      retrievalQuery: await condenseFollowUpQuery(state.previousTurns, state.query, state.model, signal),
+    }),
+    summarize: (output) => ({ retrievalQuery: output.retrievalQuery }),
+  },
+
+  // Have the chat model break a complex or interpretive question into sub-questions. A question it
+  // doesn't split (or a failed call) is answered as a whole.
+  "plan": {
+    name: "plan",
+    phase: "retrieval",
+    progress: "Breaking the question into sub-questions...",
+    requires: [],
+    produces: ["plan", "tokenUsage"],
+    skip: (state) => state.decomposition === "none" || COMPLEXITY_SETTINGS[state.complexity].maxSubQuestions === 0,
+    run: async (state, { signal }) => {
+      const maxSubQuestions = COMPLEXITY_SETTINGS[state.complexity].maxSubQuestions;
+      const { subQuestions, usage } = await planSubQuestions(state.retrievalQuery, maxSubQuestions, state.model, signal);
+      const tokenUsage = addUsage(state.tokenUsage, usage);
+      if (subQuestions.length < DECOMPOSITION_SETTINGS.MIN_SUB_QUESTIONS) {
+        return { tokenUsage };
+      }
+      return { plan: { subQuestions: subQuestions.map(question => ({ question, chunks: [] })) }, tokenUsage };
+    },
+    summarize: (output) => ({
+      subQuestions: output.plan?.subQuestions.map(subQuestion => subQuestion.question) || [],
+      tokenUsage: output.tokenUsage,
+    }),
+  },
+
+  // Look up synonyms of the query's terms for the BM25 side of the search
+  "expand": {
+    name: "expand",
+    phase: "retrieval",
+    progress: "Preparing query for processing...",
+    requires: [],
+    produces: ["queryExpansions"],
+    run: (state) => ({ queryExpansions: findQueryExpansions(searchTerms(state.retrievalQuery), state.rags.map(rag => rag.id)) }),
+    summarize: (output) => ({ expansions: output.queryExpansions }),
+  },
+
+  // Have the chat model write paraphrases of the query (llm-multi-query) or a passage that could
+  // answer it (hyde) for the search to use alongside the query. If the call fails, the search
+  // goes ahead with the query alone.
+  "generate-queries": {
+    name: "generate-queries",
+    phase: "retrieval",
+    progress: "Generating search queries...",
+    requires: [],
+    produces: ["queryVariants", "hypotheticalPassage", "tokenUsage"],
+    skip: (state) => state.retrievalStrategy !== "llm-multi-query" && state.retrievalStrategy !== "hyde",
+    run: async (state, { signal }) => {
+      if (state.retrievalStrategy === "hyde") {
+        const { passage, usage } = await generateHypotheticalPassage(state.retrievalQuery, ragNames(state.rags), state.model, signal);
+        return { hypotheticalPassage: passage, tokenUsage: addUsage(state.tokenUsage, usage) };
+      }
+      const { queries, usage } = await generateQueryParaphrases(state.retrievalQuery, RETRIEVAL_SETTINGS.LLM_QUERY_PARAPHRASES, state.model, signal);
+      return { queryVariants: queries, tokenUsage: addUsage(state.tokenUsage, usage) };
+    },
+    summarize: (output) => ({
+      ...(output.queryVariants && { queryVariants: output.queryVariants }),
+      ...(output.hypotheticalPassage && { hypotheticalPassage: output.hypotheticalPassage }),
+      tokenUsage: output.tokenUsage,
+    }),
+  },
+
+  // Embed the query's search terms (the query as written, less any search syntax) with each RAG's own
+  // embedding model, once per model
+  "embed": {
+    name: "embed",
+    phase: "retrieval",
+    progress: "Generating query embeddings...",
+    requires: [],
+    produces: ["queryEmbeddings"],
+    run: async (state, { signal }) => ({
+      queryEmbeddings: await embedForRags(searchTerms(state.retrievalQuery), state.rags, signal),
+    }),
+    summarize: (output) => ({
+      dimensions: Object.fromEntries(Object.entries(output.queryEmbeddings || {}).map(([model, embedding]) => [model, embedding.length])),
+    }),
+  },
+
+  // Retrieve the context chunks with the request's strategy from every RAG and merge them; the
+  // multi-query strategies also embed the query's variants, and hyde the generated passage. When
+  // reranking or diversification is requested, a deeper candidate list is kept for those stages.
+  "search": {
+    name: "search",
+    phase: "retrieval",
+    progress: "Searching knowledge base...",
+    requires: ["queryEmbeddings"],
+    produces: ["contextChunks", "queryVariants", "candidateChunks"],
+    run: async (state, { signal }) => {
+      const variantQueries = state.retrievalStrategy === "multi-query"
+        ? generateQueryVariants(state.retrievalQuery, RETRIEVAL_SETTINGS.MAX_QUERY_VARIANTS)
+        : state.retrievalStrategy === "llm-multi-query" ? state.queryVariants || [] : [];
+      const embed = (text: string) => embedForRags(text, state.rags, signal);
+      const [variantEmbeddings, hypotheticalEmbeddings] = await Promise.all([
+        Promise.all(variantQueries.map(embed)),
+        state.retrievalStrategy === "hyde" && state.hypotheticalPassage ? embed(state.hypotheticalPassage) : undefined,
+      ]);
+
+      const candidateCount = candidatePoolSize(state);
+      const federated = state.rags.length > 1;
+      const chunks = await searchRags(state.rags, rag => withRetry("Similarity search", () => findSimilarEmbeddings(
+        rag.db, state.queryEmbeddings![rag.queryModel], state.retrievalQuery,
+        {
+          strategy: state.retrievalStrategy,
+          complexity: state.complexity,
+          targetTokens: state.targetTokens,
+          model: state.model,
+          vectorWeight: state.vectorWeight,
+          textWeight: state.textWeight,
+          filters: state.filters,
+          queryExpansions: state.queryExpansions,
+          rrf: state.rrf,
+          queryVariants: variantQueries.map((query, index) => ({ query, embedding: variantEmbeddings[index][rag.queryModel] })),
+          hypotheticalEmbedding: hypotheticalEmbeddings?.[rag.queryModel],
+          candidateCount,
+        }
+      )));
+
+      // Each RAG returns a full context, so merged results are cut down to one
+      return {
+        contextChunks: candidateCount || federated ? limitContextChunks(chunks, state, state.retrievalQuery) : chunks,
+        ...(candidateCount && { candidateChunks: chunks }),
+        ...(variantQueries.length > 0 && { queryVariants: variantQueries }),
+      };
+    },
+    summarize: (output, state) => ({
+      strategy: state.retrievalStrategy,
+      ...(["rrf", "multi-query", "llm-multi-query", "hyde"].includes(state.retrievalStrategy) && { rrf: state.rrf }),
+      ...(state.filters && { filters: state.filters }),
+      bm25Query: bm25QuerySummary(state),
+      chunks: output.contextChunks?.length,
+      ...(state.rags.length > 1 && { chunksPerRag: countByRag(output.contextChunks || []) }),
+      topSimilarity: output.contextChunks?.[0]?.similarity,
+      ...(output.queryVariants && { queryVariants: output.queryVariants }),
+    }),
+  },
+
+  // Reorder the top candidates by reranker score and take the context from them. If the reranker
+  // fails, the retrieval order is kept rather than failing the query.
+  "rerank": {
+    name: "rerank",
+    phase: "retrieval",
+    progress: "Reranking retrieved content...",
+    requires: ["candidateChunks"],
+    produces: ["candidateChunks", "contextChunks", "rerankedBy"],
+    skip: (state) => !state.rerank,
+    run: async (state, { signal }) => {
+      try {
+        const provider = getRerankProvider();
+        const reranked = await withRetry("Rerank request", () =>
+          rerankChunks(provider, searchTerms(state.retrievalQuery), state.candidateChunks!.slice(0, RERANK_SETTINGS.TOP_N), signal)
+        );
+        return {
+          candidateChunks: reranked,
+          contextChunks: limitContextChunks(reranked, state, state.retrievalQuery),
+          rerankedBy: provider.name,
+        };
+      } catch (error) {
+        if (signal?.aborted) throw error;
+        console.error(`[${new Date().toISOString()}] Reranking failed, keeping retrieval order:`, error);
+        return {};
+      }
+    },
+    summarize: (output) => output.rerankedBy
+      ? {
+          provider: output.rerankedBy,
+          candidates: output.candidateChunks?.length,
+          topRerankScore: output.contextChunks?.[0]?.rerankScore,
+        }
+      : { reranked: false },
+  },
+
+  // Weight the candidates by recency, citations and publication type and take the context from them
+  "score": {
+    name: "score",
+    phase: "retrieval",
+    progress: "Weighting results by recency and citations...",
+    requires: ["candidateChunks"],
+    produces: ["candidateChunks", "contextChunks"],
+    skip: (state) => !state.scoring,
+    run: (state) => {
+      const candidates = state.candidateChunks!;
+      const relevanceOf = state.rerankedBy ? normalizedRerankScore(candidates) : (chunk: RetrievedChunk) => chunk.similarity;
+      const scored = applyScoring(candidates, state.scoring!, relevanceOf);
+      return {
+        candidateChunks: scored,
+        contextChunks: limitContextChunks(scored, state, state.retrievalQuery),
+      };
+    },
+    summarize: (output, state) => ({
+      ...state.scoring,
+      candidates: output.candidateChunks?.length,
+      topScore: output.contextChunks?.[0]?.scoreBreakdown,
+    }),
+  },
+
+  // Pick the context from the candidates with maximal marginal relevance, so near-duplicate chunks
+  // (e.g. reviews quoting the same finding) don't crowd it. Relevance is the reranker's score after
+  // reranking, otherwise the cosine similarity of the stored chunk vector to the query, times the
+  // score modifiers when they were applied.
+  "diversify": {
+    name: "diversify",
+    phase: "retrieval",
+    progress: "Selecting diverse content...",
+    requires: ["candidateChunks", "queryEmbeddings"],
+    produces: ["contextChunks"],
+    skip: (state) => !diversifies(state),
+    run: async (state) => {
+      const candidates = state.candidateChunks!;
+      const candidateEmbeddings = await withRetry("Load chunk embeddings", () =>
+        loadRagChunkEmbeddings(state.rags, candidates)
+      );
+
+      // Chunks are compared with the query embedding, and each other, in their RAG's embedding space
+      const embeddingModelOf = (chunk: RetrievedChunk) =>
+        (state.rags.find(rag => rag.id === chunk.ragId) || state.rags[0]).queryModel;
+      const rerankRelevance = normalizedRerankScore(candidates);
+      const relevanceOf = (chunk: RetrievedChunk, embedding: number[]) =>
+        (state.rerankedBy ? rerankRelevance(chunk) : cosineSimilarity(state.queryEmbeddings![embeddingModelOf(chunk)], embedding))
+        * (chunk.scoreBreakdown ? scoreMultiplier(chunk.scoreBreakdown) : 1);
+
+      // With a token target, order every candidate and let the budget decide how many are used
+      const count = state.targetTokens ? candidates.length : COMPLEXITY_SETTINGS[state.complexity].chunkCount;
+      const diversified = maximalMarginalRelevance(
+        candidates, candidateEmbeddings, relevanceOf, count, state.mmrLambda ?? RETRIEVAL_SETTINGS.MMR_LAMBDA, embeddingModelOf
+      );
+
+      return { contextChunks: limitContextChunks(diversified, state, state.retrievalQuery) };
+    },
+    summarize: (output, state) => ({
+      lambda: state.mmrLambda ?? RETRIEVAL_SETTINGS.MMR_LAMBDA,
+      candidates: state.candidateChunks?.length,
+      chunks: output.contextChunks?.length,
+    }),
+  },
+
+  // Search for each sub-question of the plan with the request's strategy and settings and merge its
+  // chunks into the context, a share for each sub-question, within the context's token budget
+  "retrieve-sub-questions": {
+    name: "retrieve-sub-questions",
+    phase: "retrieval",
+    progress: "Searching for each sub-question...",
+    requires: ["plan", "contextChunks"],
+    produces: ["plan", "contextChunks"],
+    skip: (state) => !state.plan,
+    run: async (state, { signal, onProgress }) => {
+      const subQuestions = state.plan!.subQuestions;
+      const subQuestionChunks: RetrievedChunk[][] = [];
+
+      for (const [index, subQuestion] of subQuestions.entries()) {
+        await onProgress?.(`Searching for sub-question ${index + 1} of ${subQuestions.length}...`);
+        const embeddings = await embedForRags(searchTerms(subQuestion.question), state.rags, signal);
+        const queryExpansions = findQueryExpansions(searchTerms(subQuestion.question), state.rags.map(rag => rag.id));
+        const chunks = await searchRags(state.rags, rag => withRetry("Similarity search", () => findSimilarEmbeddings(
+          rag.db, embeddings[rag.queryModel], subQuestion.question,
+          {
+            strategy: state.retrievalStrategy,
+            complexity: state.complexity,
+            model: state.model,
+            vectorWeight: state.vectorWeight,
+            textWeight: state.textWeight,
+            filters: state.filters,
+            queryExpansions,
+            rrf: state.rrf,
+            candidateCount: DECOMPOSITION_SETTINGS.CHUNKS_PER_SUB_QUESTION,
+          }
+        )));
+        subQuestionChunks.push(chunks.slice(0, DECOMPOSITION_SETTINGS.CHUNKS_PER_SUB_QUESTION));
+      }
+
+      const tokenBudget = contextTokenBudget(state, state.retrievalQuery);
+      const contextChunks = mergeSubQuestionChunks(state.contextChunks!, subQuestionChunks, tokenBudget, state.model);
+      const contextKeys = new Set(contextChunks.map(chunkKey));
+
+      return {
+        contextChunks,
+        plan: {
+          subQuestions: subQuestions.map((subQuestion, index) => ({
+            ...subQuestion,
+            chunks: subQuestionChunks[index]
+              .filter(chunk => contextKeys.has(chunkKey(chunk)))
+              .map(chunk => ({ id: chunk.id, ragId: chunk.ragId })),
+          })),
+        },
+      };
+    },
+    summarize: (output, state) => ({
+      chunksPerSubQuestion: output.plan?.subQuestions.map(subQuestion => subQuestion.chunks.length),
+      chunks: output.contextChunks?.length,
+      added: (output.contextChunks?.length || 0) - (state.contextChunks?.length || 0),
+    }),
+  },
+
+  // Replace each context chunk with its neighbours or its whole paper, so text split across chunk
+  // boundaries reaches the LLM whole, without going over the context's token budget
+  "expand-context": {
+    name: "expand-context",
+    phase: "retrieval",
+    progress: "Adding surrounding text to the context...",
+    requires: ["contextChunks"],
+    produces: ["contextChunks"],
+    skip: (state) => state.contextExpansion === "none",
+    run: async (state) => {
+      const expansion = state.contextExpansion as Exclude<typeof state.contextExpansion, "none">;
+      const tokenBudget = contextTokenBudget(state, state.retrievalQuery);
+      return {
+        contextChunks: await withRetry("Context expansion", () =>
+          expandContextChunks(state.rags, state.contextChunks!, expansion, state.neighborWindow, tokenBudget, state.model)
+        ),
+      };
+    },
+    summarize: (output, state) => ({
+      mode: state.contextExpansion,
+      ...(state.contextExpansion === "neighbors" && { window: state.neighborWindow }),
+      chunks: output.contextChunks?.length,
+      expanded: output.contextChunks?.filter(chunk => chunk.expandedWith).length,
+    }),
+  },
+
+  // Every chunk above the similarity threshold in any of the RAGs, for the side panel
+  "matching-chunks": {
+    name: "matching-chunks",
+    phase: "retrieval",
+    progress: "Retrieving all matching content...",
+    requires: ["queryEmbeddings"],
+    produces: ["matchingChunks"],
+    run: async (state) => ({
+      matchingChunks: await searchRags(state.rags, rag => withRetry("Matching chunks query", () => findMatchingChunks(
+        rag.db, state.queryEmbeddings![rag.queryModel], state.retrievalQuery,
+        { vectorWeight: state.vectorWeight, textWeight: state.textWeight, similarityThreshold: state.similarityThreshold, filters: state.filters, queryExpansions: state.queryExpansions }
+      ))),
+    }),
+    summarize: (output) => ({ chunks: output.matchingChunks?.length }),
+  },
+
+  // Stops the pipeline with the no-results answer when nothing was retrieved
+  "build-context": {
+    name: "build-context",
+    phase: "generation",
+    progress: "Preparing context for LLM...",
+    requires: ["contextChunks"],
+    produces: ["context"],
+    run: (state) => {
+      if (state.contextChunks!.length === 0) {
+        return { halted: true, response: NO_RESULTS_RESPONSE };
+      }
+      const { context } = buildContext(state.contextChunks!, state.query, state.complexity, state.maxChunksPerPaper, state.model);
+      return { context };
+    },
+    summarize: (output, state) => output.halted
+      ? { halted: true }
+      : {
+          contextTokens: countTokens(output.context || '', state.model),
+          tokenizer: modelTokenizer(state.model).encoding,
+          ...(modelTokenizer(state.model).approximate && { approximate: true }),
+        },
+  },
+
+  // Draft an answer to each sub-question from the context chunks retrieved for it, for the final
+  // answer to compose from. A sub-question whose draft fails is left for the final answer to cover.
+  "answer-sub-questions": {
+    name: "answer-sub-questions",
+    phase: "generation",
+    progress: "Answering sub-questions...",
+    requires: ["plan", "contextChunks"],
+    produces: ["plan", "tokenUsage"],
+    skip: (state) => !state.plan || state.decomposition !== "answer",
+    run: async (state, { signal, onProgress }) => {
+      const subQuestions = state.plan!.subQuestions;
+      let answered = 0;
+
+      const drafts = await Promise.all(subQuestions.map(async subQuestion => {
+        const sources = subQuestionContextChunks(subQuestion, state.contextChunks!);
+        if (sources.length === 0) return { answer: undefined, usage: undefined };
+
+        const { context } = buildContext(sources, subQuestion.question, state.complexity, state.maxChunksPerPaper, state.model);
+        const draft = await answerSubQuestion(subQuestion.question, state.query, context, ragNames(state.rags), state.model, signal);
+        answered++;
+        await onProgress?.(`Answered sub-question ${answered} of ${subQuestions.length}...`);
+        return draft;
+      }));
+
+      return {
+        plan: {
+          subQuestions: subQuestions.map((subQuestion, index) => ({ ...subQuestion, answer: drafts[index].answer })),
+        },
+        tokenUsage: drafts.reduce((total, draft) => addUsage(total, draft.usage), state.tokenUsage),
+      };
+    },
+    summarize: (output) => ({
+      answered: output.plan?.subQuestions.filter(subQuestion => subQuestion.answer).length,
+      tokenUsage: output.tokenUsage,
+    }),
+  },
+
+  "generate": {
+    name: "generate",
+    phase: "generation",
+    progress: "Generating response with AI model...",
+    requires: ["context"],
+    produces: ["response", "confidence", "verified", "tokenUsage"],
+    run: async (state, { signal, onToken }) => {
+      let streamedAny = false;
+      const { content, usage } = await withRetry(
+        "Response generation",
+        () => generateResponse(
+          state.query, state.context!, ragNames(state.rags), state.model,
+          state.complexity, state.outputStyle, state.previousTurns, state.plan,
+          onToken && ((delta) => {
+            streamedAny = true;
+            onToken(delta);
+          }),
+          signal
+        ),
+        // Once text has been streamed to the client, a retry would repeat it
+        (error) => !streamedAny && isTransientError(error)
+      );
+      return { response: content, confidence: 85, verified: false, tokenUsage: addUsage(state.tokenUsage, usage) };
+    },
+    summarize: (output) => ({ characters: output.response?.length, tokenUsage: output.tokenUsage }),
+  },
+
+  "verify": {
+    name: "verify",
+    phase: "generation",
+    progress: "Verifying response accuracy...",
+    requires: ["response", "contextChunks"],
+    produces: ["response", "confidence", "verified", "tokenUsage"],
+    skip: (state) => !state.enableVerification,
+    run: async (state, { signal }) => {
+      const { verifiedResponse, confidence, usage } = await verifyResponse(state.response!, state.contextChunks!, state.model, signal);
+      return { response: verifiedResponse, confidence, verified: true, tokenUsage: addUsage(state.tokenUsage, usage) };
+    },
+    summarize: (output) => ({ confidence: output.confidence }),
+  },
+
+  "cite": {
+    name: "cite",
+    phase: "generation",
+    progress: "Matching citations to sources...",
+    requires: ["response", "contextChunks"],
+    produces: ["citedSources"],
+    run: (state) => ({ citedSources: extractCitedSources(state.response!, state.contextChunks!) }),
+    summarize: (output) => ({ citedSources: [...(output.citedSources || [])] }),
+  },
+};
+
+export const DEFAULT_PIPELINE = [
+  "condense",
+  "plan",
+  "expand",
+  "generate-queries",
+  "embed",
+  "search",
+  "rerank",
+  "score",
+  "diversify",
+  "retrieve-sub-questions",
+  "expand-context",
+  "matching-chunks",
+  "build-context",
+  "answer-sub-questions",
+  "generate",
+  "verify",
+  "cite",
+];
+
+// Problems with a pipeline definition: unknown stage names or stages whose inputs come too late
+export function validatePipelineDefinition(names: string[]): string[] {
+  const unknown = names.filter(name => !PIPELINE_STAGES[name]);
+  if (unknown.length > 0) {
+    return unknown.map(name => `Unknown pipeline stage: ${name}`);
+  }
+  return validatePipeline(names.map(name => PIPELINE_STAGES[name]));
+}
+
+/**
+ * The stages to run for a request: its own definition if it sent one, else the RAG's, else the default
+ */
+export function resolvePipeline(ragId: string, requested?: string[]): PipelineStage[] {
+  const names = requested && requested.length > 0
+    ? requested
+    : RAG_PIPELINES[ragId] || DEFAULT_PIPELINE;
+
+  const errors = validatePipelineDefinition(names);
+  if (errors.length > 0) {
+    throw new Error(`Invalid pipeline: ${errors.join("; ")}`);
+  }
+
+  return names.map(name => PIPELINE_STAGES[name]);
+}
@@ -0,0 +1,120 @@
+import { existsSync, readFileSync } from "fs";
+import { join } from "path";
+import { SYNONYM_SETTINGS } from "./config";
+
+/**
+ * Synonym expansion of the BM25 query. Gene/protein symbol aliases and MeSH-style entry terms are read
+ * from JSON files of synonym groups, where every term of a group expands to the others:
+ *
+ *   { "synonyms": [["DYRK1B", "MIRK"], ["neoplasms", "cancer", "tumor"]] }
+ *
+ * data/synonyms/default.json applies to every RAG and data/synonyms/<rag id>.json to one RAG; a search
+ * over several RAGs uses all of their files.
+ * Only the BM25 side is expanded; the query embedding is always of the query as written.
+ */
+
+export interface QueryExpansion {
+  term: string; // The query term that matched, as the synonym file spells it
+  synonyms: string[];
+  source: string; // The synonym file(s) the synonyms came from
+}
+
+interface SynonymGroup {
+  terms: string[];
+  source: string;
+}
+
+// Synonym groups by normalised term, per set of RAGs, read once per function instance
+const synonymIndexes = new Map<string, Map<string, SynonymGroup[]>>();
+
+// Lowercase words of letters, digits and inner hyphens, roughly as the BM25 tokenizer splits text
+export function normalizeTerm(text: string): string {
+  return text.toLowerCase()
+    .replace(/[^\w\s-]/g, ' ')
+    .replace(/(^|\s)-+/g, '$1')
+    .replace(/\s+/g, ' ')
+    .trim();
+}
+
+function readSynonymFile(name: string): SynonymGroup[] {
+  const file = join(process.cwd(), SYNONYM_SETTINGS.DIRECTORY, `${name}.json`);
+  if (!existsSync(file)) return [];
+
+  try {
+    const data = JSON.parse(readFileSync(file, "utf-8"));
+    const groups: unknown[] = Array.isArray(data.synonyms) ? data.synonyms : [];
+    return groups
+      .filter((group): group is unknown[] => Array.isArray(group))
+      .map(group => ({
+        terms: group.filter((term): term is string => typeof term === 'string' && normalizeTerm(term).length > 0),
+        source: `${name}.json`,
+      }))
+      .filter(group => group.terms.length > 1);
+  } catch (error) {
+    console.error(`[${new Date().toISOString()}] Failed to read synonym file ${file}:`, error);
+    return [];
+  }
+}
+
+function synonymIndex(ragIds: string[]): Map<string, SynonymGroup[]> {
+  const cacheKey = ragIds.join(",");
+  const cached = synonymIndexes.get(cacheKey);
+  if (cached) return cached;
+
+  const index = new Map<string, SynonymGroup[]>();
+  for (const group of ["default", ...ragIds].flatMap(readSynonymFile)) {
+    for (const term of group.terms) {
+      const key = normalizeTerm(term);
+      index.set(key, [...(index.get(key) || []), group]);
+    }
+  }
+
+  synonymIndexes.set(cacheKey, index);
+  return index;
+}
+
+/**
+ * Find the query's terms that have synonyms in the RAGs' synonym files, preferring the longest
+ * matching phrase. Synonyms the query already contains are left out.
+ */
+export function findQueryExpansions(query: string, ragIds: string[]): QueryExpansion[] {
+  const index = synonymIndex(ragIds);
+  if (index.size === 0) return [];
+
+  const normalizedQuery = normalizeTerm(query);
+  const containedInQuery = (term: string) => ` ${normalizedQuery} `.includes(` ${normalizeTerm(term)} `);
+  const words = normalizedQuery.split(' ').filter(Boolean);
+  const expansions: QueryExpansion[] = [];
+  let synonymCount = 0;
+
+  let start = 0;
+  while (start < words.length && synonymCount < SYNONYM_SETTINGS.MAX_EXPANSION_TERMS) {
+    let matchedWords = 1;
+
+    for (let length = Math.min(SYNONYM_SETTINGS.MAX_PHRASE_WORDS, words.length - start); length > 0; length--) {
+      const phrase = words.slice(start, start + length).join(' ');
+      const groups = index.get(phrase);
+      if (!groups) continue;
+
+      const terms = [...new Set(groups.flatMap(group => group.terms))];
+      const synonyms = terms
+        .filter(term => !containedInQuery(term))
+        .slice(0, Math.min(SYNONYM_SETTINGS.MAX_SYNONYMS_PER_TERM, SYNONYM_SETTINGS.MAX_EXPANSION_TERMS - synonymCount));
+
+      if (synonyms.length > 0) {
+        expansions.push({
+          term: terms.find(term => normalizeTerm(term) === phrase) || phrase,
+          synonyms,
+          source: [...new Set(groups.map(group => group.source))].join(', '),
+        });
+        synonymCount += synonyms.length;
+      }
+      matchedWords = length;
+      break;
+    }
+
+    start += matchedWords;
+  }
+
+  return expansions;
+}
@@ -0,0 +1,104 @@
+/**
+ * Text helpers for queries and chunk metadata
+ */
+
+// Chunk metadata is stored as JSON, but older rows hold it as a string
+export function parseMetadata(metadata: any): any {
+  if (!metadata) return {};
+  if (typeof metadata === 'object') return metadata;
+  if (typeof metadata === 'string') {
+    try {
+      return JSON.parse(metadata);
+    } catch {
+      console.warn('Failed to parse metadata JSON:', metadata);
+      return {};
+    }
+  }
+  return {};
+}
+
+// Shorten author names for token efficiency
+export function shortenAuthors(authors: string | undefined): string {
+  if (!authors) return 'N/A';
+  const authorList = authors.split(',').map(a => a.trim());
+  if (authorList.length === 1) return authorList[0].split(' ').pop() + ' ' + authorList[0].split(' ')[0].charAt(0);
+  if (authorList.length <= 3) return authorList.map(a => a.split(' ').pop()).join(', ');
+  return authorList[0].split(' ').pop() + ' et al.';
+}
+
+// A chunk as it appears in the LLM context: a compact source line, then the chunk's text.
+// The context builder and the token budgets both use it, so the budgets measure the real prompt.
+export function formatContextChunk(chunk: { content: string; metadata: unknown; similarity: number }, sourceIndex: number): string {
+  const metadata = parseMetadata(chunk.metadata);
+  const year = parseInt(metadata.year) || 2020;
+  const journal = metadata.journal || 'Unknown Journal';
+  const similarity = (chunk.similarity * 100).toFixed(1);
+  const title = metadata.title || 'Unknown Title';
+  const shortTitle = title.length > 80 ? title.substring(0, 80) + '...' : title;
+
+  const chunkHeader = `[${sourceIndex}] ${shortTitle} (${journal.split(' ')[0]}, ${year}) - ${shortenAuthors(metadata.authors)} - PMID:${metadata.pmid || 'N/A'} [${similarity}%]`;
+  return `${chunkHeader}\n${chunk.content.trim()}\n`;
+}
+
+
+// Stop words, including generic academic terms that rarely match
+const STOP_WORDS = new Set([
+  'the', 'a', 'an', 'and', 'or', 'but', 'in', 'on', 'at', 'to', 'for', 'of', 'with', 'by', 'from', 'as', 'is', 'was', 'are', 'were',
+  'explain', 'describe', 'discuss', 'analyze', 'examine', 'investigate', 'study', 'research', 'show', 'demonstrate',
+  'known', 'unknown', 'potential', 'possible', 'likely', 'relevant', 'important', 'significant',
+  'role', 'roles', 'function', 'functions', 'effect', 'effects', 'impact', 'influence',
+  'mechanism', 'mechanisms', 'pathway', 'pathways', 'process', 'processes',
+  'hypothesis', 'hypothesize', 'suggest', 'propose', 'indicate', 'reveal',
+  'lines', 'line', 'approach', 'approaches', 'method', 'methods', 'technique', 'techniques'
+]);
+
+// Domain terms that are never filtered out
+const SCIENTIFIC_TERMS = new Set([
+  'pin1', 'pin-1', 'cancer', 'tumor', 'protein', 'gene', 'cell', 'dna', 'rna', 'enzyme',
+  'mutation', 'expression', 'regulation', 'signaling', 'pathway', 'inhibitor', 'activation',
+  'apoptosis', 'proliferation', 'metastasis', 'oncogene', 'suppressor', 'kinase', 'phosphorylation'
+]);
+
+// Whether a lowercase word is worth searching for: domain terms always, other words unless short or a stop word
+export function isKeyTerm(word: string): boolean {
+  const cleanWord = word.replace(/[^\w-]/g, '');
+  if (SCIENTIFIC_TERMS.has(cleanWord)) return true;
+  return cleanWord.length > 2 && !STOP_WORDS.has(cleanWord);
+}
+
+// Build the pg_search BM25 query string: the most important terms, space-separated
+export function createBM25Query(query: string): string {
+  const words = query.toLowerCase()
+    // Remove apostrophes and other special characters that could break ParadeDB parsing
+    .replace(/['"''""]/g, '')
+    .replace(/[^\w\s-]/g, ' ')
+    .split(/\s+/)
+    .filter(isKeyTerm)
+    .slice(0, 8); // The 8 most important words keep the search fast
+
+  return words.join(' ');
+}
+
+// Alternative phrasings of a query for the multi-query strategy: its key terms on their own,
+// and each part of a compound question ("X and Y", "X vs Y", several sentences) separately
+export function generateQueryVariants(query: string, maxVariants: number): string[] {
+  const variants: string[] = [];
+
+  const keyTerms = createBM25Query(query);
+  if (keyTerms.split(' ').length >= 2) {
+    variants.push(keyTerms);
+  }
+
+  const parts = query
+    .split(/[?;]|\.\s|\s+(?:and|versus|vs\.?|compared (?:to|with))\s+/i)
+    .map(part => part.trim())
+    .filter(part => createBM25Query(part).split(' ').filter(Boolean).length >= 2);
+  if (parts.length > 1) {
+    variants.push(...parts);
+  }
+
+  const normalizedQuery = query.trim().toLowerCase();
+  return [...new Set(variants)]
+    .filter(variant => variant.toLowerCase() !== normalizedQuery)
+    .slice(0, maxVariants);
+}
@@ -0,0 +1,54 @@
+import { Tiktoken } from "js-tiktoken/lite";
+import o200k_base from "js-tiktoken/ranks/o200k_base";
+import cl100k_base from "js-tiktoken/ranks/cl100k_base";
+import { DEFAULT_MODEL, MODEL_TOKENIZERS, type ModelTokenizer, type TokenizerEncoding } from "./config";
+
+/**
+ * Token counting with each chat model's tokenizer (see MODEL_TOKENIZERS), for the context budget and
+ * the answer's max_tokens, and the token usage the LLM calls report. For most models the encoding is
+ * a stand-in, so local counts are approximations; the usage the API reports is the model's own count.
+ */
+
+export interface TokenUsage {
+  promptTokens: number;
+  completionTokens: number;
+  totalTokens: number;
+}
+
+const RANKS = { o200k_base, cl100k_base };
+
+// Encoders are built on first use and kept for the life of the function instance
+const encoders = new Map<TokenizerEncoding, Tiktoken>();
+
+export function modelTokenizer(model?: string): ModelTokenizer {
+  return (model && MODEL_TOKENIZERS[model]) || MODEL_TOKENIZERS[DEFAULT_MODEL];
+}
+
+export function countTokens(text: string, model?: string): number {
+  const { encoding } = modelTokenizer(model);
+  if (!encoders.has(encoding)) {
+    encoders.set(encoding, new Tiktoken(RANKS[encoding]));
+  }
+  // "all" counts special-token strings such as <|endoftext|> in a query or chunk instead of throwing
+  return encoders.get(encoding)!.encode(text, "all").length;
+}
+
+// The usage an OpenAI-compatible completion reports, if it reports one
+export function parseUsage(usage: any): TokenUsage | undefined {
+  if (!usage || typeof usage.prompt_tokens !== 'number') return undefined;
+  const completionTokens = usage.completion_tokens ?? 0;
+  return {
+    promptTokens: usage.prompt_tokens,
+    completionTokens,
+    totalTokens: usage.total_tokens ?? usage.prompt_tokens + completionTokens,
+  };
+}
+
+export function addUsage(total: TokenUsage | undefined, usage: TokenUsage | undefined): TokenUsage | undefined {
+  if (!total || !usage) return total || usage;
+  return {
+    promptTokens: total.promptTokens + usage.promptTokens,
+    completionTokens: total.completionTokens + usage.completionTokens,
+    totalTokens: total.totalTokens + usage.totalTokens,
+  };
+}
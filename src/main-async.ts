@@ -1,5 +1,6 @@
 // Import the existing main.ts content but modify the queryRAG function to use async endpoints
 import './style.css'
+import { authHeaders } from './lib/auth-client'
 
 // ... [All the interfaces and helper functions remain the same] ...
 
@@ -14,14 +15,14 @@ async function queryRAGAsync(ragId: string, query: string, model: string, comple
   loadingContainer.classList.remove('hidden')
 
   try {
-    // Step 1: Create job and trigger background processing directly
+    // Step 1: Create the job - query-initiate dispatches background processing itself
     loadingText.textContent = 'Creating query job...'
 
-    // Create the job first by calling query-initiate, but don't rely on it for background processing
     const initResponse = await fetch('/.netlify/functions/query-initiate', {
       method: 'POST',
       headers: {
         'Content-Type': 'application/json',
+        ...authHeaders(),
       },
       body: JSON.stringify({ ragId, query, model, complexity, retrievalStrategy, enableVerification, maxChunksPerPaper, targetTokens, similarityThreshold, vectorWeight, textWeight, outputStyle }),
     })
@@ -34,23 +35,6 @@ async function queryRAGAsync(ragId: string, query: string, model: string, comple
     const { jobId } = await initResponse.json()
     console.log(`Query job created with ID: ${jobId}`)
 
-    // Step 1.5: Trigger background processing directly
-    loadingText.textContent = 'Starting background processing...'
-
-    const backgroundResponse = await fetch('/.netlify/functions/query-process-background', {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-      },
-      body: JSON.stringify({ jobId, ragId, query, model, complexity, retrievalStrategy, enableVerification, maxChunksPerPaper, targetTokens, similarityThreshold, vectorWeight, textWeight, outputStyle }),
-    })
-
-    if (!backgroundResponse.ok) {
-      throw new Error(`Failed to start background processing: ${backgroundResponse.statusText}`)
-    }
-
-    console.log(`Background processing started for job: ${jobId}`)
-
     // Step 2: Poll for results
     let pollCount = 0
     const maxPolls = 90 // 3 minutes max
@@ -60,7 +44,9 @@ async function queryRAGAsync(ragId: string, query: string, model: string, comple
       await new Promise(resolve => setTimeout(resolve, pollInterval))
       pollCount++
 
-      const statusResponse = await fetch(`/.netlify/functions/query-status?jobId=${jobId}`)
+      const statusResponse = await fetch(`/.netlify/functions/query-status?jobId=${jobId}`, {
+        headers: authHeaders(),
+      })
 
       if (!statusResponse.ok) {
         throw new Error(`Status check failed: ${statusResponse.status}`)
@@ -1,4 +1,5 @@
 import './style.css'
+import { login, logout, getAuthToken, getUsername, authHeaders } from './lib/auth-client'
 
 interface Rag {
   id: string;
@@ -60,6 +61,9 @@ interface QueryResponse {
 interface ChatMessage {
   timestamp: Date;
   query: string;
+  retrievalQuery?: string; // Standalone rewrite used for retrieval of a follow-up
+  queryExpansions?: { term: string; synonyms: string[] }[];
+  plan?: { subQuestions: { question: string; answer?: string }[] }; // Sub-questions of a decomposed question
   response: string;
   confidence?: number;
   verified?: boolean;
@@ -68,11 +72,38 @@ interface ChatMessage {
   model: string;
   complexity: string;
   outputStyle: string;
+  retrievalStrategy?: string;
+  tokenUsage?: { promptTokens: number; completionTokens: number; totalTokens: number };
+}
+
+interface HistorySummary {
+  id: string;
+  conversationId: string | null;
+  ragId: string;
+  query: string;
+  model: string | null;
+  complexity: string | null;
+  preview: string;
+  createdAt: string;
 }
 
 let chatHistory: ChatMessage[] = [];
+let currentConversationId: string | null = null;
+const PENDING_QUERY_KEY = 'pending_query';
 let isAuthenticated = false;
 
+// Retrieval strategies offered in the sidebar, as sent to the API
+const RETRIEVAL_STRATEGY_LABELS: Record<string, string> = {
+  'hybrid': 'Weighted hybrid (vector + BM25)',
+  'vector': 'Vector similarity only',
+  'bm25': 'BM25 text search only',
+  'rrf': 'Reciprocal rank fusion',
+  'mmr': 'Diverse results (MMR)',
+  'multi-query': 'Multi-query (query variants)',
+  'llm-multi-query': 'Multi-query (LLM paraphrases)',
+  'hyde': 'Hypothetical answer (HyDE)'
+}
+
 const app = document.querySelector<HTMLDivElement>('#app')!
 
 function renderLoginScreen() {
@@ -88,21 +119,38 @@ function renderLoginScreen() {
           </p>
         </div>
         <form class="mt-8 space-y-6" id="login-form">
-          <div>
-            <label for="password" class="sr-only">
-              Access Code
-            </label>
-            <input
-              id="password"
-              name="password"
-              type="password"
-              required
-              class="appearance-none rounded-md relative block w-full px-3 py-2 border border-gray-300 placeholder-gray-500 text-gray-900 focus:outline-none focus:ring-indigo-500 focus:border-indigo-500 focus:z-10 sm:text-sm"
-              placeholder="Enter access code"
-            >
+          <div class="rounded-md shadow-sm -space-y-px">
+            <div>
+              <label for="username" class="sr-only">
+                Username
+              </label>
+              <input
+                id="username"
+                name="username"
+                type="text"
+                autocomplete="username"
+                required
+                class="appearance-none rounded-none rounded-t-md relative block w-full px-3 py-2 border border-gray-300 placeholder-gray-500 text-gray-900 focus:outline-none focus:ring-indigo-500 focus:border-indigo-500 focus:z-10 sm:text-sm"
+                placeholder="Username"
+              >
+            </div>
+            <div>
+              <label for="password" class="sr-only">
+                Password
+              </label>
+              <input
+                id="password"
+                name="password"
+                type="password"
+                autocomplete="current-password"
+                required
+                class="appearance-none rounded-none rounded-b-md relative block w-full px-3 py-2 border border-gray-300 placeholder-gray-500 text-gray-900 focus:outline-none focus:ring-indigo-500 focus:border-indigo-500 focus:z-10 sm:text-sm"
+                placeholder="Password"
+              >
+            </div>
           </div>
           <div id="login-error" class="text-red-600 text-sm text-center hidden">
-            Invalid access code. Please try again.
+            Invalid username or password. Please try again.
           </div>
           <div>
             <button
@@ -121,19 +169,20 @@ function renderLoginScreen() {
   `;
 
   const loginForm = document.getElementById('login-form') as HTMLFormElement;
+  const usernameInput = document.getElementById('username') as HTMLInputElement;
   const passwordInput = document.getElementById('password') as HTMLInputElement;
   const errorDiv = document.getElementById('login-error') as HTMLDivElement;
 
-  loginForm.addEventListener('submit', (e) => {
+  loginForm.addEventListener('submit', async (e) => {
     e.preventDefault();
-    const password = passwordInput.value;
-    
-    // Simple password check - replace with your desired access code
-    if (password === 'research2025' || password === 'scirag') {
+
+    // Credentials are checked server-side; the auth function returns a signed session token
+    try {
+      await login(usernameInput.value.trim(), passwordInput.value);
       isAuthenticated = true;
-      localStorage.setItem('auth_token', 'authenticated');
       renderMainApp();
-    } else {
+    } catch (error) {
+      errorDiv.textContent = error instanceof Error ? error.message : 'Login failed. Please try again.';
       errorDiv.classList.remove('hidden');
       passwordInput.value = '';
       passwordInput.focus();
@@ -141,6 +190,13 @@ function renderLoginScreen() {
   });
 }
 
+// Return to the login screen when the server rejects the session token
+function handleSessionExpired() {
+  logout();
+  isAuthenticated = false;
+  renderLoginScreen();
+}
+
 function renderMainApp() {
   app.innerHTML = `
   <div class="min-h-screen bg-gray-100 py-6 px-4">
@@ -149,18 +205,21 @@ function renderMainApp() {
         <h1 class="text-3xl font-bold text-gray-800">
           Scientific RAG Chatbot
         </h1>
-        <button
-          id="logout-btn"
-          class="px-4 py-2 text-sm text-gray-600 hover:text-gray-800 hover:bg-gray-200 rounded-md transition-colors"
-        >
-          Logout
-        </button>
+        <div class="flex items-center space-x-2">
+          <span class="text-sm text-gray-500">${getUsername() || ''}</span>
+          <button
+            id="logout-btn"
+            class="px-4 py-2 text-sm text-gray-600 hover:text-gray-800 hover:bg-gray-200 rounded-md transition-colors"
+          >
+            Logout
+          </button>
+        </div>
       </div>
       
       <div class="grid grid-cols-1 xl:grid-cols-6 gap-6">
         <!-- Left Sidebar - Controls -->
-        <div class="xl:col-span-1">
-          <div class="bg-white rounded-lg shadow-md p-4 sticky top-6">
+        <div class="xl:col-span-1 space-y-6">
+          <div class="bg-white rounded-lg shadow-md p-4">
             <h2 class="text-lg font-semibold mb-4 text-gray-800">Settings</h2>
             
             <!-- RAG Selection -->
@@ -173,6 +232,16 @@ function renderMainApp() {
               </select>
             </div>
             
+            <!-- Additional RAGs for a federated search -->
+            <div class="mb-4">
+              <label for="extra-rags-select" class="block text-sm font-medium text-gray-700 mb-2">
+                Also Search:
+              </label>
+              <select id="extra-rags-select" multiple size="4" class="w-full px-3 py-2 text-sm border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500">
+              </select>
+              <p class="text-xs text-gray-500 mt-1">Ctrl/Cmd-click to search up to 3 more datasets in the same query</p>
+            </div>
+            
             <!-- Model Selection -->
             <div class="mb-4">
               <label for="model-select" class="block text-sm font-medium text-gray-700 mb-2">
@@ -212,6 +281,50 @@ function renderMainApp() {
               <p class="text-xs text-gray-500 mt-1">Choose structured sections or flowing narrative format</p>
             </div>
             
+            <!-- Retrieval Strategy Selection -->
+            <div class="mb-4">
+              <label for="retrieval-strategy-select" class="block text-sm font-medium text-gray-700 mb-2">
+                Retrieval Strategy:
+              </label>
+              <select id="retrieval-strategy-select" class="w-full px-3 py-2 text-sm border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500">
+                ${Object.entries(RETRIEVAL_STRATEGY_LABELS).map(([value, label]) => `
+                  <option value="${value}"${value === 'hybrid' ? ' selected' : ''}>${label}</option>
+                `).join('')}
+              </select>
+              <p class="text-xs text-gray-500 mt-1">How the context chunks are searched and ranked</p>
+            </div>
+            
+            <!-- Rank Fusion Options -->
+            <div id="rrf-options" class="mb-4 hidden">
+              <h3 class="text-sm font-medium text-gray-700 mb-3">Rank Fusion:</h3>
+              <div class="grid grid-cols-2 gap-2">
+                <div>
+                  <label for="rrf-k" class="block text-xs font-medium text-gray-600 mb-1">k constant:</label>
+                  <input 
+                    type="number" 
+                    id="rrf-k" 
+                    min="1" 
+                    max="200" 
+                    value="60"
+                    class="w-full px-2 py-1 text-sm border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                  >
+                </div>
+                <div>
+                  <label for="rrf-depth" class="block text-xs font-medium text-gray-600 mb-1">Depth per list:</label>
+                  <input 
+                    type="number" 
+                    id="rrf-depth" 
+                    min="10" 
+                    max="200" 
+                    step="10"
+                    value="50"
+                    class="w-full px-2 py-1 text-sm border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                  >
+                </div>
+              </div>
+              <p class="text-xs text-gray-500 mt-1">Rankings are merged by position, so scores on different scales don't need weighting</p>
+            </div>
+            
             <!-- Chunks per Paper -->
             <div class="mb-4">
               <label for="chunks-per-paper" class="block text-sm font-medium text-gray-700 mb-2">
@@ -265,7 +378,7 @@ function renderMainApp() {
             </div>
             
             <!-- Hybrid Search Weights -->
-            <div class="mb-4">
+            <div id="hybrid-weights" class="mb-4">
               <h3 class="text-sm font-medium text-gray-700 mb-3">Hybrid Search Weights:</h3>
               
               <!-- Vector Weight -->
@@ -309,6 +422,166 @@ function renderMainApp() {
               <p class="text-xs text-gray-500 mt-1">Balance between semantic similarity and exact text matching</p>
             </div>
             
+            <!-- Rerank Toggle -->
+            <div class="mb-4">
+              <label class="flex items-center cursor-pointer">
+                <input 
+                  type="checkbox" 
+                  id="rerank-toggle"
+                  class="h-4 w-4 text-blue-600 border-gray-300 rounded focus:ring-2 focus:ring-blue-500"
+                >
+                <span class="ml-2 text-sm font-medium text-gray-700">Rerank Top Results</span>
+              </label>
+              <p class="text-xs text-gray-500 mt-1">Re-score the best candidates with a reranker model (more precise context)</p>
+            </div>
+            
+            <!-- Diversification -->
+            <div class="mb-4">
+              <label class="flex items-center cursor-pointer">
+                <input 
+                  type="checkbox" 
+                  id="diversify-toggle"
+                  class="h-4 w-4 text-blue-600 border-gray-300 rounded focus:ring-2 focus:ring-blue-500"
+                >
+                <span class="ml-2 text-sm font-medium text-gray-700">Diversify Context (MMR)</span>
+              </label>
+              <div id="mmr-options" class="mt-2 hidden">
+                <label for="mmr-lambda" class="block text-xs font-medium text-gray-600 mb-1">
+                  Relevance vs. diversity (λ):
+                </label>
+                <div class="flex items-center space-x-2">
+                  <input 
+                    type="range" 
+                    id="mmr-lambda" 
+                    min="0.0" 
+                    max="1.0" 
+                    step="0.1" 
+                    value="0.7"
+                    class="flex-1"
+                  >
+                  <span id="mmr-lambda-value" class="text-xs font-mono w-8">0.7</span>
+                </div>
+              </div>
+              <p class="text-xs text-gray-500 mt-1">Skip near-duplicate chunks, e.g. reviews quoting the same finding</p>
+            </div>
+            
+            <!-- Context Expansion -->
+            <div class="mb-4">
+              <label for="context-expansion-select" class="block text-sm font-medium text-gray-700 mb-2">
+                Context Expansion:
+              </label>
+              <select id="context-expansion-select" class="w-full px-3 py-2 text-sm border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500">
+                <option value="none" selected>Matched chunks only</option>
+                <option value="neighbors">Add neighbouring chunks</option>
+                <option value="document">Full abstract of each paper</option>
+              </select>
+              <p class="text-xs text-gray-500 mt-1">Include the text around each match, within the token budget</p>
+            </div>
+            
+            <!-- Question Decomposition -->
+            <div class="mb-4">
+              <label for="decomposition-select" class="block text-sm font-medium text-gray-700 mb-2">
+                Question Decomposition:
+              </label>
+              <select id="decomposition-select" class="w-full px-3 py-2 text-sm border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500">
+                <option value="none" selected>Off</option>
+                <option value="retrieve">Search per sub-question</option>
+                <option value="answer">Answer each sub-question</option>
+              </select>
+              <p class="text-xs text-gray-500 mt-1">Break complex and interpretive questions into sub-questions before answering</p>
+            </div>
+            
+            <!-- Score Modifiers -->
+            <div class="mb-4">
+              <label for="recency-select" class="block text-sm font-medium text-gray-700 mb-2">
+                Favor Recent Papers:
+              </label>
+              <select id="recency-select" class="w-full px-3 py-2 text-sm border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500">
+                <option value="" selected>Off</option>
+                <option value="20">Mildly (score halves over 20 years)</option>
+                <option value="10">Moderately (score halves over 10 years)</option>
+                <option value="5">Strongly (score halves over 5 years)</option>
+              </select>
+              <label class="flex items-center cursor-pointer mt-2">
+                <input 
+                  type="checkbox" 
+                  id="citation-boost-toggle"
+                  class="h-4 w-4 text-blue-600 border-gray-300 rounded focus:ring-2 focus:ring-blue-500"
+                >
+                <span class="ml-2 text-sm text-gray-700">Boost highly cited papers</span>
+              </label>
+              <label class="flex items-center cursor-pointer mt-1">
+                <input 
+                  type="checkbox" 
+                  id="review-boost-toggle"
+                  class="h-4 w-4 text-blue-600 border-gray-300 rounded focus:ring-2 focus:ring-blue-500"
+                >
+                <span class="ml-2 text-sm text-gray-700">Boost reviews</span>
+              </label>
+              <p class="text-xs text-gray-500 mt-1">For "current consensus" questions; papers without the metadata are unaffected</p>
+            </div>
+            
+            <!-- Metadata Filters -->
+            <div class="mb-4">
+              <label class="block text-sm font-medium text-gray-700 mb-2">Filters (optional):</label>
+              <div class="flex space-x-2">
+                <div class="flex-1">
+                  <label for="filter-year-from" class="block text-xs font-medium text-gray-600 mb-1">Year from</label>
+                  <input 
+                    type="number" 
+                    id="filter-year-from" 
+                    placeholder="e.g. 2015"
+                    class="w-full px-2 py-1 mb-2 text-sm border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                  >
+                </div>
+                <div class="flex-1">
+                  <label for="filter-year-to" class="block text-xs font-medium text-gray-600 mb-1">Year to</label>
+                  <input 
+                    type="number" 
+                    id="filter-year-to" 
+                    placeholder="e.g. 2024"
+                    class="w-full px-2 py-1 mb-2 text-sm border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                  >
+                </div>
+              </div>
+              <label for="filter-include-journals" class="block text-xs font-medium text-gray-600 mb-1">Only journals</label>
+              <input 
+                type="text" 
+                id="filter-include-journals" 
+                placeholder="e.g. Nature, Cell"
+                class="w-full px-2 py-1 mb-2 text-sm border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+              >
+              <label for="filter-exclude-journals" class="block text-xs font-medium text-gray-600 mb-1">Exclude journals</label>
+              <input 
+                type="text" 
+                id="filter-exclude-journals" 
+                placeholder="comma-separated"
+                class="w-full px-2 py-1 mb-2 text-sm border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+              >
+              <label for="filter-author" class="block text-xs font-medium text-gray-600 mb-1">Author contains</label>
+              <input 
+                type="text" 
+                id="filter-author" 
+                placeholder="e.g. Smith"
+                class="w-full px-2 py-1 mb-2 text-sm border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+              >
+              <label for="filter-pmid-allow" class="block text-xs font-medium text-gray-600 mb-1">Only PMIDs</label>
+              <input 
+                type="text" 
+                id="filter-pmid-allow" 
+                placeholder="comma-separated"
+                class="w-full px-2 py-1 mb-2 text-sm border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+              >
+              <label for="filter-pmid-deny" class="block text-xs font-medium text-gray-600 mb-1">Exclude PMIDs</label>
+              <input 
+                type="text" 
+                id="filter-pmid-deny" 
+                placeholder="comma-separated"
+                class="w-full px-2 py-1 mb-2 text-sm border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+              >
+              <p class="text-xs text-gray-500 mt-1">Restrict retrieval to papers matching these metadata fields</p>
+            </div>
+            
             <!-- Verification Toggle -->
             <div class="mb-4">
               <label class="flex items-center cursor-pointer">
@@ -330,6 +603,20 @@ function renderMainApp() {
               Export Chat to HTML
             </button>
           </div>
+
+          <!-- Query History -->
+          <div class="bg-white rounded-lg shadow-md p-4">
+            <h2 class="text-lg font-semibold mb-3 text-gray-800">History</h2>
+            <input
+              type="search"
+              id="history-search"
+              placeholder="Search past questions..."
+              class="w-full px-3 py-2 mb-3 text-sm border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+            >
+            <div id="history-list" class="space-y-2 max-h-96 overflow-y-auto">
+              <div class="text-gray-500 text-sm text-center py-4">Loading history...</div>
+            </div>
+          </div>
         </div>
         
         <!-- Main Chat Area -->
@@ -361,6 +648,9 @@ function renderMainApp() {
             <div class="flex items-center justify-center">
               <div class="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600"></div>
               <span class="ml-3 text-gray-600">Processing your question...</span>
+              <button id="stop-query-btn" class="ml-4 px-3 py-1 text-sm border border-red-300 text-red-600 rounded-md hover:bg-red-50 disabled:opacity-50">
+                Stop
+              </button>
             </div>
           </div>
           
@@ -370,6 +660,17 @@ function renderMainApp() {
             <div id="error-content" class="text-red-700"></div>
           </div>
           
+          <!-- Current Conversation -->
+          <div id="conversation-bar" class="flex justify-between items-center mb-3 hidden">
+            <span class="text-sm text-gray-600">Follow-up questions continue this conversation</span>
+            <button
+              id="new-conversation-btn"
+              class="text-sm bg-white border border-gray-300 text-gray-700 py-1 px-3 rounded-md hover:bg-gray-50 focus:outline-none focus:ring-2 focus:ring-blue-500"
+            >
+              New Conversation
+            </button>
+          </div>
+
           <!-- Chat History -->
           <div id="chat-history" class="space-y-6">
             <!-- Chat messages will be inserted here -->
@@ -392,6 +693,7 @@ function renderMainApp() {
             <div id="chunks-info" class="text-sm text-gray-600 mb-4 hidden">
               Found <span id="chunks-count">0</span> chunks above similarity threshold
             </div>
+            <div id="generated-queries" class="text-xs text-gray-600 mb-4 hidden"></div>
             <div id="chunks-container" class="space-y-3 max-h-[48rem] overflow-y-auto">
               <div class="text-gray-500 text-sm text-center py-8">
                 Submit a question to see matching chunks
@@ -410,9 +712,8 @@ function renderMainApp() {
 
 // Initialize authentication check
 function init() {
-  // Check for existing session (basic implementation)
-  const authToken = localStorage.getItem('auth_token');
-  if (authToken === 'authenticated') {
+  // Check for an existing, unexpired session token
+  if (getAuthToken()) {
     isAuthenticated = true;
     renderMainApp();
   } else {
@@ -423,17 +724,28 @@ function init() {
 // Load RAG datasets
 async function loadRags() {
   try {
-    const response = await fetch('/.netlify/functions/rags')
+    const response = await fetch('/.netlify/functions/rags', {
+      headers: authHeaders(),
+    })
+
+    if (response.status === 401) {
+      handleSessionExpired()
+      return
+    }
+
     const data = await response.json()
     
     const ragSelect = document.getElementById('rag-select') as HTMLSelectElement
+    const extraRagsSelect = document.getElementById('extra-rags-select') as HTMLSelectElement
     ragSelect.innerHTML = '<option value="">Select a RAG dataset...</option>'
+    extraRagsSelect.innerHTML = ''
     
     data.rags.forEach((rag: Rag) => {
       const option = document.createElement('option')
       option.value = rag.id.toString()
       option.textContent = `${rag.name} (${rag.topic})`
       ragSelect.appendChild(option)
+      extraRagsSelect.appendChild(option.cloneNode(true))
     })
   } catch (error) {
     console.error('Error loading RAGs:', error)
@@ -465,6 +777,11 @@ function formatMarkdown(text: string): string {
     .replace(/\*([^*<]+?)\*/g, '<em>$1</em>')
 }
 
+// How score modifiers arrived at a chunk's final score, for tooltips
+function formatScoreBreakdown(breakdown: any): string {
+  return `relevance ${breakdown.relevance.toFixed(2)} × recency ${breakdown.recency.toFixed(2)} × citations ${breakdown.citations.toFixed(2)} × type ${breakdown.publicationType.toFixed(2)}`
+}
+
 // Add chat message to history
 function addChatMessage(chatMessage: ChatMessage) {
   chatHistory.push(chatMessage)
@@ -472,6 +789,9 @@ function addChatMessage(chatMessage: ChatMessage) {
   const chatHistoryContainer = document.getElementById('chat-history')!
   const messageDiv = document.createElement('div')
   messageDiv.className = 'bg-white rounded-lg shadow-md p-6'
+
+  // Label each source with its dataset when the answer drew on more than one
+  const showRags = spansSeveralRags(chatMessage.sources)
   
   messageDiv.innerHTML = `
     <div class="border-b pb-4 mb-4">
@@ -479,10 +799,36 @@ function addChatMessage(chatMessage: ChatMessage) {
         <h3 class="text-lg font-semibold text-gray-800">Question:</h3>
         <div class="text-sm text-gray-500">
           ${chatMessage.timestamp.toLocaleString()} | ${chatMessage.model} | ${chatMessage.complexity}
+          ${chatMessage.retrievalStrategy ? ` | ${RETRIEVAL_STRATEGY_LABELS[chatMessage.retrievalStrategy] || chatMessage.retrievalStrategy}` : ''}
           ${chatMessage.verified ? ` | Verified: ${chatMessage.confidence}%` : ''}
+          ${chatMessage.tokenUsage ? ` | <span title="${chatMessage.tokenUsage.promptTokens} prompt + ${chatMessage.tokenUsage.completionTokens} completion tokens">${chatMessage.tokenUsage.totalTokens} tokens</span>` : ''}
         </div>
       </div>
-      <p class="text-gray-700">${chatMessage.query}</p>
+      <p class="text-gray-700">${escapeHtml(chatMessage.query)}</p>
+      ${chatMessage.retrievalQuery && chatMessage.retrievalQuery !== chatMessage.query ? `
+        <p class="text-xs text-gray-500 mt-1">Searched as: ${escapeHtml(chatMessage.retrievalQuery)}</p>
+      ` : ''}
+      ${chatMessage.queryExpansions?.length ? `
+        <p class="text-xs text-gray-500 mt-1">Synonyms: ${chatMessage.queryExpansions.map(expansion => escapeHtml(`${expansion.term} → ${expansion.synonyms.join(', ')}`)).join('; ')}</p>
+      ` : ''}
+      ${chatMessage.plan?.subQuestions.length ? `
+        <div class="text-xs text-gray-500 mt-2">
+          <p class="font-medium">Sub-questions:</p>
+          <ol class="list-decimal ml-5">
+            ${chatMessage.plan.subQuestions.map(subQuestion => `
+              <li>
+                ${escapeHtml(subQuestion.question)}
+                ${subQuestion.answer ? `
+                  <details class="mt-1">
+                    <summary class="cursor-pointer text-blue-600">Draft answer</summary>
+                    <p class="mt-1 text-gray-600">${createPMIDLinks(escapeHtml(subQuestion.answer))}</p>
+                  </details>
+                ` : ''}
+              </li>
+            `).join('')}
+          </ol>
+        </div>
+      ` : ''}
     </div>
     
     <div class="mb-4">
@@ -513,7 +859,7 @@ function addChatMessage(chatMessage: ChatMessage) {
             return `
               <div class="bg-gray-50 p-4 rounded-lg">
                 <div class="text-sm font-medium text-gray-600 mb-2 flex justify-between">
-                  <span>Source ${source.index} (Similarity: ${(source.similarity * 100).toFixed(1)}%)</span>
+                  <span>Source ${source.index}${showRags ? ` · ${escapeHtml(getRagName(source.ragId))}` : ''} (Similarity: ${(source.similarity * 100).toFixed(1)}%${source.rerankScore !== undefined ? `, Rerank: ${source.rerankScore.toFixed(2)}` : ''}${source.scoreBreakdown ? `, <span title="${formatScoreBreakdown(source.scoreBreakdown)}">Score: ${source.scoreBreakdown.final.toFixed(2)}</span>` : ''})</span>
                   <a href="https://pubmed.ncbi.nlm.nih.gov/${pmid}" target="_blank" class="text-blue-600 hover:text-blue-800 underline">
                     PMID: ${pmid}
                   </a>
@@ -569,9 +915,9 @@ function exportChatToHTML() {
     ${chatHistory.map((chat, index) => `
         <div class="chat-message">
             <div class="metadata">
-                Chat ${index + 1} | ${chat.timestamp.toLocaleString()} | Model: ${chat.model} | Complexity: ${chat.complexity} | Style: ${chat.outputStyle} | RAG: ${chat.ragName}
+                Chat ${index + 1} | ${chat.timestamp.toLocaleString()} | Model: ${chat.model} | Complexity: ${chat.complexity} | Style: ${chat.outputStyle}${chat.retrievalStrategy ? ` | Retrieval: ${chat.retrievalStrategy}` : ''} | RAG: ${chat.ragName}
             </div>
-            <div class="question">Q: ${chat.query}</div>
+            <div class="question">Q: ${escapeHtml(chat.query)}</div>
             <div class="response">
                 <strong>Response:</strong><br>
                 ${createPMIDLinks(formatMarkdown(chat.response))}
@@ -613,6 +959,24 @@ function exportChatToHTML() {
   URL.revokeObjectURL(url)
 }
 
+// Show the extra queries the multi-query strategies searched, or the passage HyDE embedded, above the chunks
+function displayGeneratedQueries(queryVariants: string[] = [], hypotheticalPassage?: string) {
+  const container = document.getElementById('generated-queries')!
+  container.classList.toggle('hidden', queryVariants.length === 0 && !hypotheticalPassage)
+  container.innerHTML = `
+    ${queryVariants.length > 0 ? `
+      <div class="font-medium text-gray-700 mb-1">Also searched for:</div>
+      <ul class="list-disc list-inside space-y-0.5">
+        ${queryVariants.map(variant => `<li>${escapeHtml(variant)}</li>`).join('')}
+      </ul>
+    ` : ''}
+    ${hypotheticalPassage ? `
+      <div class="font-medium text-gray-700 mb-1">Hypothetical answer searched for:</div>
+      <p class="italic">${escapeHtml(hypotheticalPassage)}</p>
+    ` : ''}
+  `
+}
+
 // Display matching chunks in the right panel
 function displayMatchingChunks(chunks: any[]) {
   const chunksContainer = document.getElementById('chunks-container')!
@@ -633,7 +997,8 @@ function displayMatchingChunks(chunks: any[]) {
     return
   }
   
-  // Display chunks
+  // Display chunks, labelled with their dataset when they come from more than one
+  const showRags = spansSeveralRags(chunks)
   chunks.forEach((chunk, index) => {
     const metadata = parseMetadata(chunk.metadata);
 
@@ -686,8 +1051,13 @@ function displayMatchingChunks(chunks: any[]) {
           <a href="https://pubmed.ncbi.nlm.nih.gov/${pmid}" target="_blank" class="text-xs font-medium text-blue-600 hover:text-blue-800" style="text-decoration: none;">PMID: ${pmid}</a>
           <span class="text-xs text-gray-500">${authorYearText}</span>
         </div>
-        <div class="text-xs text-gray-500">${similarity}% similar</div>
+        <div class="text-xs text-gray-500 text-right">
+          ${similarity}% similar
+          ${chunk.rerankScore !== undefined ? `<div title="Reranker score">rerank ${chunk.rerankScore.toFixed(2)}</div>` : ''}
+          ${chunk.scoreBreakdown ? `<div title="${formatScoreBreakdown(chunk.scoreBreakdown)}">score ${chunk.scoreBreakdown.final.toFixed(2)}</div>` : ''}
+        </div>
       </div>
+      ${showRags ? `<div class="text-xs text-purple-700 mb-1">${escapeHtml(getRagName(chunk.ragId))}</div>` : ''}
       <div class="text-sm font-medium text-gray-800 mb-2 line-clamp-2">${title}</div>
       <div class="text-xs text-gray-600 line-clamp-3">${chunk.content.substring(0, 200)}...</div>
     `
@@ -787,8 +1157,403 @@ function exportMatchingChunks() {
   URL.revokeObjectURL(url)
 }
 
+// Escape user-supplied text before inserting it into HTML
+function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;')
+}
+
+// Look up a RAG's display name from the dataset selector
+function getRagName(ragId: string): string {
+  const ragSelect = document.getElementById('rag-select') as HTMLSelectElement
+  const option = Array.from(ragSelect.options).find(opt => opt.value === ragId)
+  return option?.textContent || ragId
+}
+
+// Whether search results come from more than one RAG
+function spansSeveralRags(results: { ragId?: string }[]): boolean {
+  return new Set(results.map(result => result.ragId).filter(Boolean)).size > 1
+}
+
+// Load the user's saved query history into the sidebar
+async function loadHistory(search: string = '') {
+  const historyList = document.getElementById('history-list')
+  if (!historyList) return
+
+  try {
+    const params = new URLSearchParams()
+    if (search) params.set('q', search)
+
+    const response = await fetch(`/.netlify/functions/history?${params.toString()}`, {
+      headers: authHeaders(),
+    })
+
+    if (response.status === 401) {
+      handleSessionExpired()
+      return
+    }
+
+    if (!response.ok) {
+      throw new Error(`History request failed: ${response.status}`)
+    }
+
+    const { entries } = await response.json() as { entries: HistorySummary[] }
+
+    if (entries.length === 0) {
+      historyList.innerHTML = `<div class="text-gray-500 text-sm text-center py-4">${search ? 'No matching questions' : 'No saved questions yet'}</div>`
+      return
+    }
+
+    historyList.innerHTML = entries.map(entry => `
+      <div class="group border border-gray-200 rounded-md p-2 hover:bg-gray-50 cursor-pointer" data-history-id="${entry.id}">
+        <div class="flex justify-between items-start">
+          <div class="text-sm text-gray-800 line-clamp-2">${escapeHtml(entry.query)}</div>
+          <button
+            class="ml-2 text-xs text-gray-400 hover:text-red-600 opacity-0 group-hover:opacity-100"
+            title="Delete from history"
+            data-history-delete="${entry.id}"
+          >✕</button>
+        </div>
+        <div class="text-xs text-gray-500 mt-1">
+          ${new Date(entry.createdAt).toLocaleString()} | ${escapeHtml(getRagName(entry.ragId))}
+        </div>
+      </div>
+    `).join('')
+
+    historyList.querySelectorAll<HTMLElement>('[data-history-id]').forEach(item => {
+      item.addEventListener('click', () => openHistoryEntry(item.dataset.historyId!))
+    })
+    historyList.querySelectorAll<HTMLElement>('[data-history-delete]').forEach(button => {
+      button.addEventListener('click', (e) => {
+        e.stopPropagation()
+        removeHistoryEntry(button.dataset.historyDelete!)
+      })
+    })
+  } catch (error) {
+    console.error('Error loading history:', error)
+    historyList.innerHTML = '<div class="text-red-600 text-sm text-center py-4">Failed to load history</div>'
+  }
+}
+
+// Convert a saved history entry into a chat message
+function historyEntryToChatMessage(entry: any): ChatMessage {
+  return {
+    timestamp: new Date(entry.createdAt),
+    query: entry.query,
+    retrievalQuery: entry.retrievalQuery || undefined,
+    queryExpansions: entry.queryExpansions || undefined,
+    response: entry.response,
+    confidence: entry.confidence,
+    verified: entry.verified,
+    sources: (entry.sources || []).map((source: any) => ({
+      ...source,
+      metadata: parseMetadata(source.metadata)
+    })),
+    ragName: getRagName(entry.ragId),
+    model: entry.params?.model || '',
+    complexity: entry.params?.complexity || '',
+    outputStyle: entry.params?.outputStyle || '',
+    retrievalStrategy: entry.retrievalStrategy || (RETRIEVAL_STRATEGY_LABELS[entry.params?.retrievalStrategy] ? entry.params.retrievalStrategy : undefined)
+  }
+}
+
+// Clear the chat area and start a fresh conversation
+function startNewConversation() {
+  currentConversationId = null
+  chatHistory = []
+  document.getElementById('chat-history')!.innerHTML = ''
+  document.getElementById('conversation-bar')!.classList.add('hidden')
+}
+
+// Mark the conversation that follow-up questions will continue
+function setCurrentConversation(conversationId: string | null) {
+  currentConversationId = conversationId
+  document.getElementById('conversation-bar')!.classList.toggle('hidden', !conversationId)
+}
+
+// Reopen a past question with its answer, sources and matching chunks.
+// Questions that belong to a conversation reopen the whole conversation so it can be continued.
+async function openHistoryEntry(id: string) {
+  try {
+    const response = await fetch(`/.netlify/functions/history?id=${encodeURIComponent(id)}`, {
+      headers: authHeaders(),
+    })
+
+    if (response.status === 401) {
+      handleSessionExpired()
+      return
+    }
+
+    if (!response.ok) {
+      throw new Error(`History request failed: ${response.status}`)
+    }
+
+    const entry = await response.json()
+
+    if (entry.conversationId) {
+      const conversationResponse = await fetch(`/.netlify/functions/history?conversationId=${encodeURIComponent(entry.conversationId)}`, {
+        headers: authHeaders(),
+      })
+
+      if (!conversationResponse.ok) {
+        throw new Error(`Conversation request failed: ${conversationResponse.status}`)
+      }
+
+      const { turns } = await conversationResponse.json()
+
+      startNewConversation()
+      turns.forEach((turn: any) => addChatMessage(historyEntryToChatMessage(turn)))
+      setCurrentConversation(entry.conversationId)
+    } else {
+      addChatMessage(historyEntryToChatMessage(entry))
+    }
+
+    displayMatchingChunks(entry.allMatchingChunks || [])
+    displayGeneratedQueries(entry.queryVariants || undefined, entry.hypotheticalPassage || undefined)
+  } catch (error) {
+    console.error('Error opening history entry:', error)
+    alert('Failed to open this history entry.')
+  }
+}
+
+// Delete a history entry and refresh the list
+async function removeHistoryEntry(id: string) {
+  if (!confirm('Delete this question from your history?')) return
+
+  try {
+    const response = await fetch(`/.netlify/functions/history?id=${encodeURIComponent(id)}`, {
+      method: 'DELETE',
+      headers: authHeaders(),
+    })
+
+    if (response.status === 401) {
+      handleSessionExpired()
+      return
+    }
+
+    if (!response.ok && response.status !== 404) {
+      throw new Error(`Delete failed: ${response.status}`)
+    }
+  } catch (error) {
+    console.error('Error deleting history entry:', error)
+    alert('Failed to delete this history entry.')
+  }
+
+  const searchInput = document.getElementById('history-search') as HTMLInputElement
+  loadHistory(searchInput.value.trim())
+}
+
+// Show the completed answer, its sources and matching chunks
+function finishQuery(query: string, status: any, model: string, complexity: string, outputStyle: string) {
+  localStorage.removeItem(PENDING_QUERY_KEY)
+  document.getElementById('loading-container')!.classList.add('hidden')
+
+  // Get RAG name
+  const ragSelect = document.getElementById('rag-select') as HTMLSelectElement
+  const ragName = ragSelect.selectedOptions[0]?.textContent || 'Unknown RAG'
+
+  // Add to chat history
+  const chatMessage: ChatMessage = {
+    timestamp: new Date(),
+    query,
+    retrievalQuery: status.retrievalQuery || undefined,
+    queryExpansions: status.queryExpansions,
+    plan: status.plan || undefined,
+    response: status.response,
+    confidence: status.confidence,
+    verified: status.verified,
+    sources: (status.sources || []).map((source: any) => {
+      const metadata = parseMetadata(source.metadata);
+      return {
+        ...source,
+        metadata
+      };
+    }),
+    ragName,
+    model,
+    complexity,
+    outputStyle,
+    retrievalStrategy: status.retrievalStrategy,
+    tokenUsage: status.tokenUsage
+  }
+
+  addChatMessage(chatMessage)
+
+  // Display matching chunks in right panel
+  displayMatchingChunks(status.allMatchingChunks || [])
+  displayGeneratedQueries(status.queryVariants, status.hypotheticalPassage)
+
+  // Clear input
+  const queryInput = document.getElementById('query-input') as HTMLTextAreaElement
+  queryInput.value = ''
+
+  // The answer has been saved to history by the server
+  const historySearch = document.getElementById('history-search') as HTMLInputElement
+  loadHistory(historySearch.value.trim())
+}
+
+// Show a question with its answer as it streams in; replaced by the full message when done
+function createStreamingMessage(query: string) {
+  const messageDiv = document.createElement('div')
+  messageDiv.className = 'bg-white rounded-lg shadow-md p-6'
+  messageDiv.innerHTML = `
+    <div class="border-b pb-4 mb-4">
+      <h3 class="text-lg font-semibold text-gray-800 mb-2">Question:</h3>
+      <p class="text-gray-700">${escapeHtml(query)}</p>
+    </div>
+    <div>
+      <h4 class="text-md font-semibold text-gray-800 mb-3">Response:</h4>
+      <div class="streaming-response prose max-w-none text-gray-800 leading-relaxed"></div>
+    </div>
+  `
+
+  document.getElementById('chat-history')!.appendChild(messageDiv)
+  messageDiv.scrollIntoView({ behavior: 'smooth', block: 'start' })
+
+  const responseDiv = messageDiv.querySelector('.streaming-response')!
+  return {
+    setResponse: (text: string) => {
+      responseDiv.innerHTML = createPMIDLinks(formatMarkdown(text))
+    },
+    remove: () => messageDiv.remove()
+  }
+}
+
+// Read a Server-Sent Events response, calling onEvent for each complete event
+async function readServerSentEvents(response: Response, onEvent: (eventName: string, data: any) => void) {
+  const reader = response.body!.getReader()
+  const decoder = new TextDecoder()
+  let buffer = ''
+
+  while (true) {
+    const { done, value } = await reader.read()
+    if (done) break
+
+    buffer += decoder.decode(value, { stream: true })
+    const frames = buffer.split('\n\n')
+    buffer = frames.pop() || ''
+
+    for (const frame of frames) {
+      let eventName = 'message'
+      let data = ''
+      for (const line of frame.split('\n')) {
+        if (line.startsWith('event:')) eventName = line.substring(6).trim()
+        else if (line.startsWith('data:')) data += line.substring(5).trim()
+      }
+      if (data) onEvent(eventName, JSON.parse(data))
+    }
+  }
+}
+
+// Follow a job through the streaming endpoint, rendering the answer as it is generated. The endpoint
+// closes each stream before its function timeout, so the stream is reopened from where it stopped.
+// Returns false if streaming is unavailable or breaks off so the caller can fall back to polling.
+async function streamQueryResults(jobId: string, query: string, model: string, complexity: string, outputStyle: string): Promise<boolean> {
+  const loadingText = document.getElementById('loading-container')!.querySelector('span')!
+
+  let liveMessage = null as ReturnType<typeof createStreamingMessage> | null
+  let responseText = ''
+  let cursor = 0
+  let attempt = 0
+
+  try {
+    while (true) {
+      const response = await fetch(`/.netlify/functions/query-stream?jobId=${jobId}&cursor=${cursor}&attempt=${attempt}`, {
+        headers: authHeaders(),
+      })
+
+      if (response.status === 401) {
+        handleSessionExpired()
+        return true
+      }
+
+      if (!response.ok || !response.body) {
+        console.warn(`Streaming unavailable (status ${response.status}), falling back to polling`)
+        return false
+      }
+
+      let completed: any = null
+      let streamError = null as string | null
+      let cancelled = false
+      let reconnect = false
+
+      try {
+        await readServerSentEvents(response, (eventName, data) => {
+          switch (eventName) {
+            case 'progress':
+              loadingText.textContent = data.message
+              break
+            case 'retrieval-done':
+              loadingText.textContent = `Found ${data.contextChunks} relevant passages, generating answer...`
+              break
+            case 'sources':
+              displayMatchingChunks(data.allMatchingChunks || [])
+              break
+            case 'restart':
+              // A retried job writes its answer again from the start
+              responseText = ''
+              liveMessage?.setResponse('')
+              break
+            case 'token':
+              responseText += data.delta
+              liveMessage = liveMessage || createStreamingMessage(query)
+              liveMessage.setResponse(responseText)
+              break
+            case 'verification':
+              liveMessage = liveMessage || createStreamingMessage(query)
+              liveMessage.setResponse(data.response)
+              break
+            case 'done':
+              completed = data
+              break
+            case 'error':
+              streamError = data.error
+              break
+            case 'cancelled':
+              cancelled = true
+              break
+            case 'reconnect':
+              cursor = data.cursor
+              attempt = data.attempt
+              reconnect = true
+              break
+          }
+        })
+      } catch (error) {
+        console.warn('The answer stream broke off, falling back to polling:', error)
+        return false
+      }
+
+      if (cancelled) {
+        showQueryCancelled()
+        return true
+      }
+
+      if (streamError) {
+        throw new Error(streamError)
+      }
+
+      if (completed) {
+        finishQuery(query, completed, model, complexity, outputStyle)
+        return true
+      }
+
+      if (!reconnect) {
+        console.warn('The answer stream ended unexpectedly, falling back to polling')
+        return false
+      }
+    }
+  } finally {
+    liveMessage?.remove()
+  }
+}
+
 // Query the selected RAG using async background functions
-async function queryRAG(ragId: string, query: string, model: string, complexity: string, retrievalStrategy: string, enableVerification: boolean = false, maxChunksPerPaper: number = 2, targetTokens?: number, similarityThreshold: number = 0.3, vectorWeight: number = 0.7, textWeight: number = 0.3, outputStyle: string = "structured") {
+async function queryRAG(ragId: string, query: string, model: string, complexity: string, retrievalStrategy: string, enableVerification: boolean = false, maxChunksPerPaper: number = 2, targetTokens?: number, similarityThreshold: number = 0.3, vectorWeight: number = 0.7, textWeight: number = 0.3, outputStyle: string = "structured", rrfK?: number, rrfDepth?: number, rerank: boolean = false, mmrLambda?: number, filters?: Record<string, unknown>, scoring?: Record<string, unknown>, contextExpansion: string = "none", decomposition: string = "none", ragIds: string[] = []) {
   const loadingContainer = document.getElementById('loading-container')!
   const errorContainer = document.getElementById('error-container')!
   const loadingText = loadingContainer.querySelector('span')!
@@ -796,6 +1561,7 @@ async function queryRAG(ragId: string, query: string, model: string, complexity:
   // Hide error and show loading
   errorContainer.classList.add('hidden')
   loadingContainer.classList.remove('hidden')
+  setStopButtonState(false)
 
   try {
     // Step 1: Initiate the query
@@ -805,45 +1571,129 @@ async function queryRAG(ragId: string, query: string, model: string, complexity:
       method: 'POST',
       headers: {
         'Content-Type': 'application/json',
+        ...authHeaders(),
       },
-      body: JSON.stringify({ ragId, query, model, complexity, retrievalStrategy, enableVerification, maxChunksPerPaper, targetTokens, similarityThreshold, vectorWeight, textWeight, outputStyle }),
+      body: JSON.stringify({ ragId, ragIds, query, conversationId: currentConversationId, model, complexity, retrievalStrategy, rrfK, rrfDepth, rerank, mmrLambda, filters, scoring, contextExpansion, decomposition, enableVerification, maxChunksPerPaper, targetTokens, similarityThreshold, vectorWeight, textWeight, outputStyle }),
     })
 
+    if (initResponse.status === 401) {
+      handleSessionExpired()
+      return
+    }
+
     if (!initResponse.ok) {
       const errorData = await initResponse.json()
       throw new Error(errorData.error || `HTTP error! status: ${initResponse.status}`)
     }
 
-    const { jobId } = await initResponse.json()
-    console.log(`Query initiated with job ID: ${jobId}`)
+    const { jobId, conversationId } = await initResponse.json()
+    console.log(`Query initiated with job ID: ${jobId} (conversation ${conversationId})`)
+    setCurrentConversation(conversationId)
+
+    // Remember the job so the answer can be picked up again after a page reload
+    localStorage.setItem(PENDING_QUERY_KEY, JSON.stringify({ jobId, query, model, complexity, outputStyle }))
+
+    // Step 2: Stream the answer as it is generated
+    loadingText.textContent = 'Starting query processing...'
+    if (await streamQueryResults(jobId, query, model, complexity, outputStyle)) {
+      return
+    }
 
-    // Step 1.5: Trigger background processing directly
-    loadingText.textContent = 'Starting background processing...'
+    // Step 3: Streaming is unavailable - the job is processed in the background either way, so poll for results
+    await pollQueryResults(jobId, query, model, complexity, outputStyle)
 
-    const backgroundResponse = await fetch('/.netlify/functions/query-process-background', {
+  } catch (error) {
+    console.error('Error querying RAG:', error)
+    showQueryError(error)
+  }
+}
+
+// Hide loading and show why the question failed
+function showQueryError(error: unknown) {
+  localStorage.removeItem(PENDING_QUERY_KEY)
+
+  document.getElementById('loading-container')!.classList.add('hidden')
+  document.getElementById('error-container')!.classList.remove('hidden')
+
+  const errorContent = document.getElementById('error-content')!
+  errorContent.textContent = `Failed to process your question: ${error instanceof Error ? error.message : 'Unknown error'}`
+}
+
+// Hide loading after the question was stopped; the question stays in the input so it can be edited and asked again
+function showQueryCancelled() {
+  localStorage.removeItem(PENDING_QUERY_KEY)
+  document.getElementById('loading-container')!.classList.add('hidden')
+  console.log('Query cancelled')
+}
+
+function setStopButtonState(stopping: boolean) {
+  const stopButton = document.getElementById('stop-query-btn') as HTMLButtonElement
+  stopButton.disabled = stopping
+  stopButton.textContent = stopping ? 'Stopping...' : 'Stop'
+}
+
+// Ask the server to cancel the question being answered; the stream or polling loop then reports the cancellation
+async function stopCurrentQuery() {
+  const saved = localStorage.getItem(PENDING_QUERY_KEY)
+  if (!saved) return
+
+  const { jobId } = JSON.parse(saved)
+  setStopButtonState(true)
+
+  try {
+    const response = await fetch('/.netlify/functions/query-cancel', {
       method: 'POST',
       headers: {
         'Content-Type': 'application/json',
+        ...authHeaders(),
       },
-      body: JSON.stringify({ jobId, ragId, query, model, complexity, retrievalStrategy, enableVerification, maxChunksPerPaper, targetTokens, similarityThreshold, vectorWeight, textWeight, outputStyle }),
+      body: JSON.stringify({ jobId }),
     })
 
-    if (!backgroundResponse.ok) {
-      throw new Error(`Failed to start background processing: ${backgroundResponse.statusText}`)
+    if (response.status === 401) {
+      handleSessionExpired()
+      return
     }
 
-    console.log(`Background processing started for job: ${jobId}`)
+    // 409: the job finished before it could be cancelled, so its answer will arrive as usual
+    if (!response.ok && response.status !== 409) {
+      const errorData = await response.json()
+      throw new Error(errorData.error || `HTTP error! status: ${response.status}`)
+    }
+  } catch (error) {
+    console.error('Error cancelling query:', error)
+    setStopButtonState(false)
+    alert('Failed to stop this question.')
+  }
+}
+
+// Poll query-status until the job finishes, showing the answer as it is written to the job
+async function pollQueryResults(jobId: string, query: string, model: string, complexity: string, outputStyle: string) {
+  const loadingText = document.getElementById('loading-container')!.querySelector('span')!
+
+  let pollCount = 0
+  const maxPolls = 90 // 3 minutes max
+  const pollInterval = 2000 // 2 seconds
 
-    // Step 2: Poll for results
-    let pollCount = 0
-    const maxPolls = 90 // 3 minutes max
-    const pollInterval = 2000 // 2 seconds
+  // Only the answer text written since the last poll is returned
+  let cursor = 0
+  let partialResponse = ''
+  let attempt = 0
+  let liveMessage = null as ReturnType<typeof createStreamingMessage> | null
 
+  try {
     while (pollCount < maxPolls) {
       await new Promise(resolve => setTimeout(resolve, pollInterval))
       pollCount++
 
-      const statusResponse = await fetch(`/.netlify/functions/query-status?jobId=${jobId}`)
+      const statusResponse = await fetch(`/.netlify/functions/query-status?jobId=${jobId}&cursor=${cursor}`, {
+        headers: authHeaders(),
+      })
+
+      if (statusResponse.status === 401) {
+        handleSessionExpired()
+        return
+      }
 
       if (!statusResponse.ok) {
         throw new Error(`Status check failed: ${statusResponse.status}`)
@@ -851,57 +1701,48 @@ async function queryRAG(ragId: string, query: string, model: string, complexity:
 
       const status = await statusResponse.json()
 
+      // A retried job writes its answer again from the start
+      const restarted = attempt > 0 && status.attempt > attempt
+      if (status.attempt) {
+        attempt = status.attempt
+      }
+
+      if (restarted) {
+        partialResponse = ''
+        cursor = 0
+        liveMessage?.setResponse('')
+      } else {
+        if (status.partialResponse) {
+          partialResponse += status.partialResponse
+          liveMessage = liveMessage || createStreamingMessage(query)
+          liveMessage.setResponse(partialResponse)
+        }
+        if (status.cursor !== undefined) {
+          cursor = status.cursor
+        }
+      }
+
       // Update loading message
       const elapsed = (pollCount * pollInterval / 1000).toFixed(0)
 
       if (status.status === 'completed') {
-        // Success! Process the response
         console.log('Query completed successfully')
-
-        // Hide loading
-        loadingContainer.classList.add('hidden')
-
-        // Get RAG name
-        const ragSelect = document.getElementById('rag-select') as HTMLSelectElement
-        const ragName = ragSelect.selectedOptions[0]?.textContent || 'Unknown RAG'
-
-        // Add to chat history
-        const chatMessage: ChatMessage = {
-          timestamp: new Date(),
-          query,
-          response: status.response,
-          confidence: status.confidence,
-          verified: status.verified,
-          sources: (status.sources || []).map((source: any) => {
-            const metadata = parseMetadata(source.metadata);
-            return {
-              ...source,
-              metadata
-            };
-          }),
-          ragName,
-          model,
-          complexity,
-          outputStyle
-        }
-
-        addChatMessage(chatMessage)
-
-        // Display matching chunks in right panel
-        displayMatchingChunks(status.allMatchingChunks || [])
-
-        // Clear input
-        const queryInput = document.getElementById('query-input') as HTMLTextAreaElement
-        queryInput.value = ''
-
-        return // Exit the function successfully
+        finishQuery(query, status, model, complexity, outputStyle)
+        return
 
       } else if (status.status === 'failed') {
         throw new Error(status.error || 'Query processing failed')
 
+      } else if (status.status === 'cancelled') {
+        showQueryCancelled()
+        return
+
       } else if (status.status === 'processing') {
         loadingText.textContent = `${status.progress || 'Processing query'} (${elapsed}s elapsed)...`
 
+      } else if (status.nextAttemptAt) {
+        loadingText.textContent = `Temporary error, retrying shortly (${elapsed}s elapsed)...`
+
       } else {
         loadingText.textContent = `Waiting for processing to start (${elapsed}s elapsed)...`
       }
@@ -909,30 +1750,48 @@ async function queryRAG(ragId: string, query: string, model: string, complexity:
 
     // Timeout reached
     throw new Error('Query processing timeout - the query is taking longer than expected. Please try again.')
+  } finally {
+    liveMessage?.remove()
+  }
+}
 
-  } catch (error) {
-    console.error('Error querying RAG:', error)
+// Pick up a question that was still being answered when the page was reloaded
+async function resumePendingQuery() {
+  const saved = localStorage.getItem(PENDING_QUERY_KEY)
+  if (!saved) return
+
+  const { jobId, query, model, complexity, outputStyle } = JSON.parse(saved)
+  console.log(`Resuming job ${jobId} after reload`)
 
-    // Hide loading and show error
-    loadingContainer.classList.add('hidden')
-    errorContainer.classList.remove('hidden')
+  document.getElementById('error-container')!.classList.add('hidden')
+  document.getElementById('loading-container')!.classList.remove('hidden')
+  setStopButtonState(false)
 
-    const errorContent = document.getElementById('error-content')!
-    errorContent.textContent = `Failed to process your question: ${error instanceof Error ? error.message : 'Unknown error'}`
+  try {
+    if (!(await streamQueryResults(jobId, query, model, complexity, outputStyle))) {
+      await pollQueryResults(jobId, query, model, complexity, outputStyle)
+    }
+  } catch (error) {
+    console.error('Error resuming query:', error)
+    showQueryError(error)
   }
 }
 
 // Initialize app functionality
 function initializeApp() {
   loadRags();
+  loadHistory();
+  resumePendingQuery();
   
   // Event listeners
   // Logout functionality
   document.getElementById('logout-btn')?.addEventListener('click', () => {
-    localStorage.removeItem('auth_token');
+    logout();
+    localStorage.removeItem(PENDING_QUERY_KEY);
     isAuthenticated = false;
     renderLoginScreen();
   });
+  document.getElementById('stop-query-btn')?.addEventListener('click', stopCurrentQuery);
 document.getElementById('submit-btn')?.addEventListener('click', () => {
   const ragSelect = document.getElementById('rag-select') as HTMLSelectElement
   const queryInput = document.getElementById('query-input') as HTMLTextAreaElement
@@ -945,6 +1804,12 @@ document.getElementById('submit-btn')?.addEventListener('click', () => {
   const vectorWeightInput = document.getElementById('vector-weight') as HTMLInputElement
   const textWeightInput = document.getElementById('text-weight') as HTMLInputElement
   const outputStyleSelect = document.getElementById('output-style-select') as HTMLSelectElement
+  const retrievalStrategySelect = document.getElementById('retrieval-strategy-select') as HTMLSelectElement
+  const rrfKInput = document.getElementById('rrf-k') as HTMLInputElement
+  const rrfDepthInput = document.getElementById('rrf-depth') as HTMLInputElement
+  const rerankToggle = document.getElementById('rerank-toggle') as HTMLInputElement
+  const diversifyToggle = document.getElementById('diversify-toggle') as HTMLInputElement
+  const mmrLambdaInput = document.getElementById('mmr-lambda') as HTMLInputElement
   
   if (!ragSelect.value || !queryInput.value.trim()) {
     alert('Please select a RAG dataset and enter a question.')
@@ -962,17 +1827,73 @@ document.getElementById('submit-btn')?.addEventListener('click', () => {
     queryInput.value.trim(),
     modelSelect.value,
     complexitySelect.value,
-    "enhanced", // Always use enhanced strategy
+    retrievalStrategySelect.value || "hybrid",
     verificationToggle.checked,
     parseInt(chunksPerPaperSelect.value),
     targetTokens,
     similarityThreshold,
     vectorWeight,
     textWeight,
-    outputStyle
+    outputStyle,
+    rrfKInput.value ? parseInt(rrfKInput.value) : undefined,
+    rrfDepthInput.value ? parseInt(rrfDepthInput.value) : undefined,
+    rerankToggle.checked,
+    diversifyToggle.checked || retrievalStrategySelect.value === 'mmr' ? parseFloat(mmrLambdaInput.value) : undefined,
+    readFilters(),
+    readScoring(),
+    (document.getElementById('context-expansion-select') as HTMLSelectElement).value,
+    (document.getElementById('decomposition-select') as HTMLSelectElement).value,
+    readRagIds(ragSelect.value)
   )
 })
 
+// The selected dataset followed by the other datasets to search with it
+function readRagIds(ragId: string): string[] {
+  const extraRagsSelect = document.getElementById('extra-rags-select') as HTMLSelectElement
+  const extraRagIds = Array.from(extraRagsSelect.selectedOptions).map(option => option.value).filter(id => id !== ragId)
+  return [ragId, ...extraRagIds]
+}
+
+// Metadata filters from the sidebar, leaving out empty fields (undefined when none are set)
+function readFilters(): Record<string, unknown> | undefined {
+  const value = (id: string) => (document.getElementById(id) as HTMLInputElement).value.trim()
+  const list = (id: string) => value(id).split(',').map(entry => entry.trim()).filter(Boolean)
+
+  const filters: Record<string, unknown> = {}
+  if (value('filter-year-from')) filters.yearFrom = parseInt(value('filter-year-from'))
+  if (value('filter-year-to')) filters.yearTo = parseInt(value('filter-year-to'))
+  if (list('filter-include-journals').length) filters.includeJournals = list('filter-include-journals')
+  if (list('filter-exclude-journals').length) filters.excludeJournals = list('filter-exclude-journals')
+  if (value('filter-author')) filters.authorContains = value('filter-author')
+  if (list('filter-pmid-allow').length) filters.pmidAllow = list('filter-pmid-allow')
+  if (list('filter-pmid-deny').length) filters.pmidDeny = list('filter-pmid-deny')
+
+  return Object.keys(filters).length > 0 ? filters : undefined
+}
+
+// Score modifiers from the sidebar (undefined when none is on, so the RAG's own settings apply)
+function readScoring(): Record<string, unknown> | undefined {
+  const halfLife = (document.getElementById('recency-select') as HTMLSelectElement).value
+  const boostCitations = (document.getElementById('citation-boost-toggle') as HTMLInputElement).checked
+  const boostReviews = (document.getElementById('review-boost-toggle') as HTMLInputElement).checked
+
+  const scoring: Record<string, unknown> = {}
+  if (halfLife) scoring.recencyHalfLife = parseInt(halfLife)
+  if (boostCitations) scoring.citationWeight = 0.3
+  if (boostReviews) scoring.publicationTypeBoosts = { review: 1.2 }
+
+  return Object.keys(scoring).length > 0 ? scoring : undefined
+}
+
+// Search history as the user types (debounced)
+let historySearchTimer: ReturnType<typeof setTimeout> | undefined
+document.getElementById('history-search')?.addEventListener('input', (e) => {
+  const value = (e.target as HTMLInputElement).value.trim()
+  clearTimeout(historySearchTimer)
+  historySearchTimer = setTimeout(() => loadHistory(value), 300)
+})
+
+document.getElementById('new-conversation-btn')?.addEventListener('click', startNewConversation)
 document.getElementById('export-btn')?.addEventListener('click', exportChatToHTML)
 document.getElementById('export-chunks-btn')?.addEventListener('click', exportMatchingChunks)
 
@@ -984,6 +1905,28 @@ document.getElementById('query-input')?.addEventListener('keydown', (e) => {
   }
 })
 
+// Show the settings the selected retrieval strategy uses: fusion options for rank fusion,
+// weights for the strategies built on the weighted hybrid score
+document.getElementById('retrieval-strategy-select')?.addEventListener('change', (e) => {
+  const strategy = (e.target as HTMLSelectElement).value
+  document.getElementById('rrf-options')!.classList.toggle('hidden', !['rrf', 'multi-query', 'llm-multi-query', 'hyde'].includes(strategy))
+  document.getElementById('hybrid-weights')!.classList.toggle('hidden', !['hybrid', 'mmr', 'multi-query', 'llm-multi-query', 'hyde'].includes(strategy))
+  updateMmrOptions()
+})
+
+// The λ slider applies when diversification is switched on or the MMR strategy is selected
+function updateMmrOptions() {
+  const strategy = (document.getElementById('retrieval-strategy-select') as HTMLSelectElement).value
+  const diversify = (document.getElementById('diversify-toggle') as HTMLInputElement).checked
+  document.getElementById('mmr-options')!.classList.toggle('hidden', !diversify && strategy !== 'mmr')
+}
+
+document.getElementById('diversify-toggle')?.addEventListener('change', updateMmrOptions)
+
+document.getElementById('mmr-lambda')?.addEventListener('input', (e) => {
+  document.getElementById('mmr-lambda-value')!.textContent = parseFloat((e.target as HTMLInputElement).value).toFixed(1)
+})
+
 // Update similarity threshold display
 document.getElementById('similarity-threshold')?.addEventListener('input', (e) => {
   const value = (e.target as HTMLInputElement).value